@@ -1,30 +1,55 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Session, Category, CategoryItem } from './types';
+import { Session, Category, CategoryItem, SyncConflict, BackupFile, RestoreMode, OverlapFix } from './types';
 import {
   loadSessions,
   loadSessionsLocal,
   saveSession,
   deleteSession,
   createSession,
-  exportToCSV,
+  downloadBackup,
+  restoreBackup,
   loadCategories,
   saveCategories,
+  syncCategories,
+  linkSessionCategories,
+  reassignSessionsCategory,
+  getBackendKind,
+  setStorageBackend,
+  loadMigrationBackup,
+  rollbackMigration,
   loadTheme,
   saveTheme,
-  clearAllData
+  loadConcurrentMode,
+  saveConcurrentMode,
+  loadDayStartHour,
+  saveDayStartHour,
+  clearAllData,
+  claimLocalData,
+  flushOutbox,
+  subscribeToOutbox,
+  resolveConflict
 } from './services/storageService';
 import PulseTile from './components/PulseTile';
 import Timeline from './components/Timeline';
 import Guardrail from './components/Guardrail';
+import SyncConflicts from './components/SyncConflicts';
 import SettingsModal from './components/SettingsModal';
 import StatisticsModal from './components/StatisticsModal';
 import EditSessionModal from './components/EditSessionModal';
-import { Zap, Settings, BarChart2, Activity, RotateCcw } from 'lucide-react';
+import SplitSessionModal from './components/SplitSessionModal';
+import ImportModal from './components/ImportModal';
+import ExportModal from './components/ExportModal';
+import RestoreModal from './components/RestoreModal';
+import { ImportPlan } from './services/importService';
+import { Zap, Settings, BarChart2, Activity, RotateCcw, CloudOff } from 'lucide-react';
 import { AnimatePresence } from 'framer-motion';
-import { format, isSameDay, startOfDay, addHours, addMinutes, isBefore } from 'date-fns';
+import { format, startOfDay, addHours, addMinutes, isBefore } from 'date-fns';
 import { supabase } from './services/supabaseClient';
+import { BackendKind } from './services/storageBackend';
+import { LOCAL_USER_ID } from './services/localBackend';
 import { Auth } from './components/Auth';
 import { v4 as uuidv4 } from 'uuid';
+import { findCategory, sessionsToStop, endSession, isPaused, splitSession, joinSessions, spanOf, trackingDayOf, trackingDayBounds } from './utils';
 
 const App: React.FC = () => {
   // Use lazy initialization to load data synchronously before first render
@@ -32,28 +57,44 @@ const App: React.FC = () => {
   const [sessions, setSessions] = useState<Session[]>(() => loadSessionsLocal());
   const [categories, setCategories] = useState<CategoryItem[]>(() => loadCategories());
   const [theme, setTheme] = useState<'light' | 'dark'>(() => loadTheme());
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [concurrentMode, setConcurrentMode] = useState<boolean>(() => loadConcurrentMode());
+  const [dayStartHour, setDayStartHour] = useState<number>(() => loadDayStartHour());
+  const [selectedDate, setSelectedDate] = useState<Date>(() => trackingDayOf(new Date(), dayStartHour));
   const [finishLoading, setFinishLoading] = useState(false);
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
 
   // Edit Modal State
   const [editingSession, setEditingSession] = useState<Session | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
-  // Undo State
-  const [deletedSessions, setDeletedSessions] = useState<Session[]>([]);
+  // Undo State: each entry brings back earlier versions of sessions and removes ones it created
+  const [undoStack, setUndoStack] = useState<{ label: string; restore: Session[]; remove: string[] }[]>([]);
+  const [splittingSession, setSplittingSession] = useState<Session | null>(null);
+
+  // Sync State
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [hasMigrationBackup, setHasMigrationBackup] = useState(false);
 
   // Load initial data
+  const [backendKind, setBackendKind] = useState<BackendKind>(() => getBackendKind());
   const [user, setUser] = useState<any>(null);
   // Do not block initial render on auth/remote load
   const [loading, setLoading] = useState(false);
 
   // Auth & Initial Data Load
   useEffect(() => {
-    if (!supabase) {
+    // Local-only mode needs no account; the device cache is the store
+    if (backendKind === 'local') {
+      setUser(null);
       setLoading(false);
+      loadData();
       return;
     }
 
@@ -69,6 +110,7 @@ const App: React.FC = () => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
       if (session?.user) {
+        claimData(session.user.id);
         // Sync remote data in background
         loadData().finally(() => clearTimeout(safetyTimeout));
       } else {
@@ -82,6 +124,7 @@ const App: React.FC = () => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user ?? null);
       if (session?.user) {
+        claimData(session.user.id);
         loadData();
       }
     });
@@ -90,15 +133,66 @@ const App: React.FC = () => {
       subscription?.unsubscribe();
       clearTimeout(safetyTimeout);
     };
+  }, [backendKind]);
+
+  // Retry queued remote changes whenever connectivity or focus returns
+  useEffect(() => {
+    const unsubscribe = subscribeToOutbox(pending => setPendingCount(pending.length));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleFocus = () => flushOutbox(true);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') flushOutbox(true);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
   }, []);
 
+  // Drop another account's data from the screen before syncing this one
+  const claimData = (userId: string) => {
+    if (!claimLocalData(userId)) return;
+    setSessions(loadSessionsLocal());
+    setCategories(loadCategories());
+    setConflicts([]);
+  };
+
   const loadData = async () => {
-    // Background sync
-    const loaded = await loadSessions();
+    // Background sync (merges with local, queued changes are pushed afterwards)
+    const [{ sessions: loaded, conflicts: found }, loadedCategories] = await Promise.all([
+      loadSessions(),
+      syncCategories()
+    ]);
     setSessions(loaded);
+    setCategories(loadedCategories);
+    setConflicts(found);
     setFinishLoading(true);
   };
 
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    setConflicts(prev => prev.filter(c => c.local.id !== conflict.local.id));
+    const resolved = await resolveConflict(conflict, keep);
+    setSessions(prev => prev.map(s => s.id === resolved.id ? resolved : s));
+  };
+
+  useEffect(() => {
+    loadMigrationBackup().then(backup => setHasMigrationBackup(!!backup));
+  }, []);
+
   // Apply theme side-effects
   useEffect(() => {
     document.documentElement.classList.remove('light', 'dark');
@@ -106,10 +200,21 @@ const App: React.FC = () => {
     saveTheme(theme);
   }, [theme]);
 
+  useEffect(() => {
+    saveConcurrentMode(concurrentMode);
+  }, [concurrentMode]);
+
+  useEffect(() => {
+    saveDayStartHour(dayStartHour);
+  }, [dayStartHour]);
+
   // Remove the effect that saves ALL sessions on every change,
   // because we now handle saves granularly in handlers to interact with DB efficiently.
   useEffect(() => {
     saveCategories(categories);
+    // Link legacy name-only sessions (and re-link orphans) to category ids
+    const relinked = linkSessionCategories(categories);
+    if (relinked) setSessions(relinked);
   }, [categories]);
 
 
@@ -117,36 +222,31 @@ const App: React.FC = () => {
     setTheme(newTheme);
   };
 
-  const activeSession = sessions.find(s => s.is_active);
-
-  // Filter sessions for timeline (Today ONLY, or active)
-  // Filter sessions for timeline (Selected Date OR active)
+  // Several trackers can run at once (concurrent activities or global parallel mode)
+  const activeByCategory = useMemo(() => {
+    const map = new Map<string, Session>();
+    sessions.filter(s => s.is_active).forEach(s => {
+      const id = findCategory(s, categories)?.id;
+      if (id && !map.has(id)) map.set(id, s);
+    });
+    return map;
+  }, [sessions, categories]);
+  // Archived categories keep resolving for history but get no tile
+  const tileCategories = categories.filter(c => !c.archived);
+
+  // Sessions touching the selected day. Ones crossing a day boundary show on both days;
+  // the timeline marks the part that falls on this one.
+  const dayBounds = useMemo(() => trackingDayBounds(selectedDate, dayStartHour), [selectedDate, dayStartHour]);
   const timelineSessions = useMemo(() => {
     return sessions.filter(s => {
-      // Always show active session if it's today (or if user selected today)
-      // Actually, typically active session is "now", so it belongs to today. 
-      // If user goes back in time, they probably want to see that day's logs.
-      // But if they have an active session, it might be confusing to hide it?
-      // Let's stick to: Show sessions that end on selected date.
-      // For active session: It effectively "ends" now (or hasn't ended). 
-      // If selectedDate is Today, show active. If selectedDate is past, hide active?
-      // User request: "go back and change the time for a particular activity in the past".
-      // So filtering by end time (completed sessions) is key.
-
-      const isToday = isSameDay(selectedDate, new Date());
-
-      if (s.is_active) {
-        return isToday;
-      }
-
-      const end = new Date(s.end_time!);
-      return isSameDay(end, selectedDate);
+      const { start, end } = spanOf(s);
+      return start < dayBounds.end.getTime() && end > dayBounds.start.getTime();
     });
-  }, [sessions, selectedDate]);
+  }, [sessions, dayBounds]);
 
   const handleStartSession = (categoryItem: CategoryItem) => {
     // Check if selected date is strictly before today (start of day comparison)
-    const isPastDate = isBefore(startOfDay(selectedDate), startOfDay(new Date()));
+    const isPastDate = isBefore(startOfDay(selectedDate), trackingDayOf(new Date(), dayStartHour));
 
     if (isPastDate) {
       // Past Date: Open Edit Modal with a draft session
@@ -155,8 +255,9 @@ const App: React.FC = () => {
 
       const draftSession: Session = {
         id: uuidv4(),
-        user_id: user?.id || 'local-user',
+        user_id: user?.id || LOCAL_USER_ID,
         category: categoryItem.name,
+        category_id: categoryItem.id,
         start_time: draftStart.toISOString(),
         end_time: draftEnd.toISOString(),
         is_active: false,
@@ -169,31 +270,41 @@ const App: React.FC = () => {
     }
 
     // Normal behavior (Today)
+    // Already running: the tile offers stop instead
+    if (activeByCategory.has(categoryItem.id)) return;
+
     const now = new Date().toISOString();
-    let updatedSessions = [...sessions];
-
-    // If there is an active session, stop it first
-    if (activeSession) {
-      updatedSessions = updatedSessions.map(s =>
-        s.id === activeSession.id
-          ? { ...s, end_time: now, is_active: false }
-          : s
-      );
-    }
+    const stopped = sessionsToStop(sessions, categoryItem, categories, concurrentMode)
+      .map(s => endSession(s, now));
+    const stoppedById = new Map(stopped.map(s => [s.id, s]));
 
-    const newSession = createSession(categoryItem.name, user?.id);
+    const newSession = createSession(categoryItem, user?.id);
     // Optimistically update UI
-    setSessions([newSession, ...updatedSessions]);
+    setSessions([newSession, ...sessions.map(s => stoppedById.get(s.id) ?? s)]);
 
     // Persist changes
-    if (activeSession) {
-      // We need to save the stopped session
-      const stoppedSession = updatedSessions.find(s => s.id === activeSession.id);
-      if (stoppedSession) saveSession(stoppedSession);
-    }
+    stopped.forEach(s => saveSession(s));
     saveSession(newSession);
   };
 
+  // Untracked gap in the timeline: draft a session covering it for the user to label
+  const handleFillGap = (start: Date, end: Date) => {
+    const categoryItem = tileCategories[0];
+    if (!categoryItem) return;
+
+    setEditingSession({
+      id: uuidv4(),
+      user_id: user?.id || LOCAL_USER_ID,
+      category: categoryItem.name,
+      category_id: categoryItem.id,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      is_active: false,
+      created_at: new Date().toISOString()
+    });
+    setIsEditModalOpen(true);
+  };
+
   const handleStopSession = (sessionId: string) => {
     const now = new Date().toISOString();
 
@@ -201,7 +312,7 @@ const App: React.FC = () => {
     const sessionToStop = sessions.find(s => s.id === sessionId);
     if (!sessionToStop) return;
 
-    const stoppedSession = { ...sessionToStop, end_time: now, is_active: false };
+    const stoppedSession = endSession(sessionToStop, now);
 
     // Update local state first
     setSessions(prev => prev.map(s =>
@@ -212,7 +323,24 @@ const App: React.FC = () => {
     saveSession(stoppedSession);
   };
 
-  const handleUpdateSession = (updatedSession: Session) => {
+  const handleTogglePause = (sessionId: string) => {
+    const target = sessions.find(s => s.id === sessionId);
+    if (!target || !target.is_active) return;
+
+    const now = new Date().toISOString();
+    const pauses = target.pauses ?? [];
+    const updated: Session = {
+      ...target,
+      pauses: isPaused(target)
+        ? pauses.map(p => p.end ? p : { ...p, end: now })
+        : [...pauses, { start: now, end: null }]
+    };
+
+    setSessions(prev => prev.map(s => s.id === sessionId ? updated : s));
+    saveSession(updated);
+  };
+
+  const handleUpdateSession = (updatedSession: Session, fix?: OverlapFix) => {
     // Check if it's a new session (not in state)
     const exists = sessions.some(s => s.id === updatedSession.id);
     if (exists) {
@@ -221,31 +349,119 @@ const App: React.FC = () => {
       setSessions(prev => [updatedSession, ...prev]);
     }
     saveSession(updatedSession);
+
+    // Trimmed neighbours (overlap resolution) can be undone
+    if (fix && (fix.changed.length > 0 || fix.removed.length > 0)) {
+      const touched = new Set([...fix.changed.map(s => s.id), ...fix.removed]);
+      const previous = sessions.filter(s => touched.has(s.id));
+      const created = fix.changed.filter(c => !sessions.some(s => s.id === c.id)).map(c => c.id);
+      setUndoStack(prev => [...prev, { label: 'trim', restore: previous, remove: created }]);
+
+      const changedById = new Map(fix.changed.map(s => [s.id, s]));
+      setSessions(prev => [
+        ...fix.changed.filter(c => created.includes(c.id)),
+        ...prev.filter(s => !fix.removed.includes(s.id)).map(s => changedById.get(s.id) ?? s)
+      ]);
+      fix.changed.forEach(s => saveSession(s));
+      fix.removed.forEach(id => deleteSession(id));
+    }
   };
 
   const handleDeleteSession = (id: string) => {
     const sessionToDelete = sessions.find(s => s.id === id);
     if (sessionToDelete) {
-      setDeletedSessions(prev => [...prev, sessionToDelete]);
+      setUndoStack(prev => [...prev, { label: 'delete', restore: [sessionToDelete], remove: [] }]);
       setSessions(prev => prev.filter(s => s.id !== id));
       deleteSession(id);
     }
   };
 
-  const handleUndoDelete = () => {
-    if (deletedSessions.length === 0) return;
+  const handleSplitSession = (session: Session, at: string, category: CategoryItem | undefined) => {
+    const [first, second] = splitSession(session, at, category);
+    setUndoStack(prev => [...prev, { label: 'split', restore: [session], remove: [second.id] }]);
+    setSessions(prev => [second, ...prev.map(s => s.id === session.id ? first : s)]);
+    saveSession(first);
+    saveSession(second);
+  };
+
+  const handleJoinSessions = (newer: Session, older: Session) => {
+    const joined = joinSessions(older, newer);
+    const removed = joined.id === older.id ? newer : older;
+    setUndoStack(prev => [...prev, { label: 'merge', restore: [older, newer], remove: [] }]);
+    setSessions(prev => prev
+      .filter(s => s.id !== removed.id)
+      .map(s => s.id === joined.id ? joined : s));
+    saveSession(joined);
+    deleteSession(removed.id);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
 
-    const lastDeleted = deletedSessions[deletedSessions.length - 1];
-    setDeletedSessions(prev => prev.slice(0, -1)); // Remove from stack
+    const last = undoStack[undoStack.length - 1];
+    setUndoStack(prev => prev.slice(0, -1)); // Remove from stack
 
     // Restore locally
+    const restoredIds = new Set(last.restore.map(s => s.id));
     setSessions(prev => {
-      const newSessions = [...prev, lastDeleted];
+      const newSessions = [
+        ...prev.filter(s => !restoredIds.has(s.id) && !last.remove.includes(s.id)),
+        ...last.restore
+      ];
       return newSessions.sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
     });
 
     // Restore persistence
-    saveSession(lastDeleted);
+    last.restore.forEach(s => saveSession(s));
+    last.remove.forEach(id => deleteSession(id));
+  };
+
+  const handleImport = (plan: ImportPlan) => {
+    if (plan.newCategories.length > 0) {
+      setCategories(prev => [...prev, ...plan.newCategories]);
+    }
+    setSessions(prev => [...plan.sessions, ...prev].sort((a, b) =>
+      new Date(b.start_time).getTime() - new Date(a.start_time).getTime()
+    ));
+    plan.sessions.forEach(session => saveSession(session));
+  };
+
+  const handleRestore = (backup: BackupFile, mode: RestoreMode) => {
+    const restored = restoreBackup(backup, mode);
+    setSessions(restored.sessions);
+    setCategories(restored.categories);
+    setTheme(restored.theme);
+    setDayStartHour(restored.dayStartHour);
+    setConcurrentMode(restored.concurrentMode);
+  };
+
+  const handleMergeCategory = (fromId: string, intoId: string) => {
+    const into = categories.find(c => c.id === intoId);
+    if (!into) return;
+    setSessions(reassignSessionsCategory(fromId, into));
+    setCategories(prev => prev.filter(c => c.id !== fromId));
+  };
+
+  const handleChangeBackend = (kind: BackendKind) => {
+    setStorageBackend(kind);
+    setBackendKind(kind);
+    setConflicts([]);
+    setSessions(loadSessionsLocal());
+    setCategories(loadCategories());
+  };
+
+  const handleSignOut = async () => {
+    if (pendingCount > 0 && !window.confirm(
+      `${pendingCount} changes haven't synced yet. They will sync when you sign back in to this account, but are discarded if another account signs in on this device. Sign out?`
+    )) return;
+    await supabase.auth.signOut();
+    setIsSettingsOpen(false);
+  };
+
+  const handleRollbackMigration = async () => {
+    if (!(await rollbackMigration())) return;
+    // Restart so nothing in memory writes newer-shaped data back over the restored copy
+    window.location.reload();
   };
 
   const handleClearData = () => {
@@ -275,21 +491,8 @@ const App: React.FC = () => {
     );
   }
 
-  if (!user && supabase) {
-    return <Auth />;
-  }
-
-  if (!supabase) {
-    return (
-      <div className="min-h-screen bg-background flex flex-col items-center justify-center text-textMain p-6 text-center">
-        <Activity className="w-12 h-12 text-red-500 mb-4" />
-        <h2 className="text-xl font-bold mb-2">Configuration Error</h2>
-        <p className="text-textMuted max-w-sm">
-          Supabase credentials not found. The app cannot start without a valid database connection.
-          Please ensure <code>VITE_SUPABASE_URL</code> and <code>VITE_SUPABASE_ANON_KEY</code> are set in your environment.
-        </p>
-      </div>
-    );
+  if (backendKind === 'supabase' && !user) {
+    return <Auth onUseLocal={() => handleChangeBackend('local')} />;
   }
 
   return (
@@ -328,11 +531,24 @@ const App: React.FC = () => {
 
 
         <div className="flex gap-2">
+          {pendingCount > 0 && (
+            <button
+              onClick={() => flushOutbox(true)}
+              className="bg-surface hover:bg-surfaceHighlight border border-border text-textMuted rounded-full pl-2 pr-3 py-2 transition-colors flex items-center gap-1.5"
+              aria-label={`${pendingCount} pending changes`}
+              title={isOnline ? 'Changes waiting to sync. Tap to retry.' : 'Offline. Changes will sync when you reconnect.'}
+            >
+              <CloudOff size={16} className={isOnline ? 'text-yellow-500' : ''} />
+              <span className="text-xs font-mono">{pendingCount}</span>
+            </button>
+          )}
+
           <button
-            onClick={handleUndoDelete}
-            disabled={deletedSessions.length === 0}
-            className={`bg-surface hover:bg-surfaceHighlight border border-border text-textMain rounded-full p-2 transition-colors mr-1 ${deletedSessions.length === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
-            aria-label="Undo Delete"
+            onClick={handleUndo}
+            disabled={undoStack.length === 0}
+            className={`bg-surface hover:bg-surfaceHighlight border border-border text-textMain rounded-full p-2 transition-colors mr-1 ${undoStack.length === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            aria-label={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label}` : 'Undo'}
+            title={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label}` : undefined}
           >
             <RotateCcw size={20} />
           </button>
@@ -356,20 +572,22 @@ const App: React.FC = () => {
       </header >
 
       <main className="p-4 max-w-md mx-auto space-y-8">
-        <Guardrail sessions={sessions} />
+        <SyncConflicts conflicts={conflicts} onResolve={handleResolveConflict} />
+        <Guardrail sessions={sessions} categories={categories} />
 
         {/* Tiles Grid */}
         <section className="grid grid-cols-2 gap-3">
-          {categories.map(cat => (
+          {tileCategories.map(cat => (
             <PulseTile
               key={cat.id}
               category={cat}
-              activeSession={activeSession?.category === cat.name ? activeSession : undefined}
+              activeSession={activeByCategory.get(cat.id)}
               onStart={() => handleStartSession(cat)}
               onStop={handleStopSession}
+              onTogglePause={handleTogglePause}
             />
           ))}
-          {categories.length === 0 && (
+          {tileCategories.length === 0 && (
             <div className="col-span-2 py-8 text-center text-textMuted text-sm border-2 border-dashed border-border rounded-xl">
               No activities found.<br />Add one in Settings.
             </div>
@@ -380,9 +598,15 @@ const App: React.FC = () => {
         <section>
           <Timeline
             sessions={timelineSessions}
+            categories={categories}
             onUpdateSession={handleUpdateSession}
             onDeleteSession={handleDeleteSession}
             onEditSession={openEditModal}
+            onSplitSession={setSplittingSession}
+            onJoinSessions={handleJoinSessions}
+            onFillGap={handleFillGap}
+            dayStart={dayBounds.start}
+            dayEnd={dayBounds.end}
           />
         </section>
       </main>
@@ -393,17 +617,70 @@ const App: React.FC = () => {
         onClose={() => setIsSettingsOpen(false)}
         categories={categories}
         onUpdateCategories={setCategories}
+        onMergeCategory={handleMergeCategory}
         theme={theme}
         onToggleTheme={handleThemeToggle}
-        onExportCSV={() => exportToCSV(sessions)}
+        concurrentMode={concurrentMode}
+        onToggleConcurrentMode={setConcurrentMode}
+        dayStartHour={dayStartHour}
+        onChangeDayStartHour={setDayStartHour}
+        backendKind={backendKind}
+        userEmail={user?.email}
+        onChangeBackend={handleChangeBackend}
+        onSignOut={handleSignOut}
+        onOpenExport={() => {
+          setIsSettingsOpen(false);
+          setIsExportOpen(true);
+        }}
+        onOpenImport={() => {
+          setIsSettingsOpen(false);
+          setIsImportOpen(true);
+        }}
+        onDownloadBackup={downloadBackup}
+        onOpenRestore={() => {
+          setIsSettingsOpen(false);
+          setIsRestoreOpen(true);
+        }}
+        onRollbackMigration={hasMigrationBackup ? handleRollbackMigration : undefined}
         onClearData={handleClearData}
       />
 
+      {/* Export Modal */}
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        sessions={sessions}
+        categories={categories}
+        dayStartHour={dayStartHour}
+      />
+
+      {/* Import Modal */}
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        sessions={sessions}
+        categories={categories}
+        onImport={handleImport}
+      />
+
+      {/* Restore Modal */}
+      <RestoreModal
+        isOpen={isRestoreOpen}
+        onClose={() => setIsRestoreOpen(false)}
+        onRestore={handleRestore}
+      />
+
       {/* Statistics & Analysis Modal */}
       <StatisticsModal
         isOpen={isStatsOpen}
         onClose={() => setIsStatsOpen(false)}
         sessions={sessions}
+        categories={categories}
+        dayStartHour={dayStartHour}
+        onSelectDay={(day: Date) => {
+          setSelectedDate(day);
+          setIsStatsOpen(false);
+        }}
       />
 
       {/* Edit Session Modal */}
@@ -411,9 +688,20 @@ const App: React.FC = () => {
         isOpen={isEditModalOpen}
         onClose={closeEditModal}
         session={editingSession}
+        sessions={sessions}
+        categories={categories}
         onSave={handleUpdateSession}
       />
 
+      {/* Split Session Modal */}
+      <SplitSessionModal
+        isOpen={!!splittingSession}
+        onClose={() => setSplittingSession(null)}
+        session={splittingSession}
+        categories={categories}
+        onSplit={handleSplitSession}
+      />
+
     </div >
   );
 };
@@ -2,7 +2,11 @@ import React, { useState } from 'react';
 import { supabase } from '../services/supabaseClient';
 import { Activity, Lock, Mail, Loader2, Play } from 'lucide-react';
 
-export const Auth: React.FC = () => {
+interface AuthProps {
+    onUseLocal?: () => void;
+}
+
+export const Auth: React.FC<AuthProps> = ({ onUseLocal }) => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [loading, setLoading] = useState(false);
@@ -118,6 +122,17 @@ export const Auth: React.FC = () => {
                                 ? 'Already have an account? Sign in'
                                 : 'Need an account? Sign up'}
                         </button>
+
+                        {onUseLocal && (
+                            <button
+                                type="button"
+                                onClick={onUseLocal}
+                                className="w-full flex items-center justify-center gap-2 py-2.5 px-4 border border-border rounded-lg text-sm font-medium text-textMain hover:bg-surfaceHighlight transition-colors"
+                            >
+                                <Play className="w-4 h-4" />
+                                Use without an account
+                            </button>
+                        )}
                     </div>
                 </form>
             </div>
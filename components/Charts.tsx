@@ -1,5 +1,6 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { format } from 'date-fns';
 
 // --- Types ---
 export interface ChartDataPoint {
@@ -11,6 +12,7 @@ export interface ChartDataPoint {
 export interface StackedBarDataPoint {
     label: string;
     total: number;
+    ghost?: number; // Comparison total, drawn as an outline behind the bar
     segments: {
         key: string;
         value: number;
@@ -19,6 +21,20 @@ export interface StackedBarDataPoint {
     }[];
 }
 
+export interface DayArcDataPoint {
+    key: string;
+    id: string; // Passed to onSelect, several arcs may share one
+    label: string;
+    start: Date;
+    end: Date;
+    color: string;
+}
+
+export interface HeatmapDataPoint {
+    date: Date; // Calendar day
+    value: number;
+}
+
 // --- Utils ---
 const getCoordinatesForPercent = (percent: number) => {
     const x = Math.cos(2 * Math.PI * percent);
@@ -26,6 +42,10 @@ const getCoordinatesForPercent = (percent: number) => {
     return [x, y];
 };
 
+// Heat cells: 0 for empty, then four steps up to the maximum
+const HEAT_OPACITY = [0, 0.3, 0.5, 0.75, 1];
+const heatLevel = (value: number, max: number) => value <= 0 ? 0 : Math.ceil((value / max) * 4);
+
 // --- Pie Chart ---
 export const PieChart: React.FC<{ data: ChartDataPoint[]; size?: number; donut?: boolean; valueFormatter?: (v: number) => string }> = ({
     data,
@@ -115,7 +135,7 @@ export const StackedBarChart: React.FC<{ data: StackedBarDataPoint[]; height?: n
     height = 200,
     valueFormatter = (v) => `${Math.round(v)}`
 }) => {
-    const maxTotal = Math.max(...data.map(d => d.total), 1); // Avoid div/0
+    const maxTotal = Math.max(...data.map(d => Math.max(d.total, d.ghost ?? 0)), 1); // Avoid div/0
 
     return (
         <div className="w-full flex items-end justify-between gap-2" style={{ height }}>
@@ -124,21 +144,29 @@ export const StackedBarChart: React.FC<{ data: StackedBarDataPoint[]; height?: n
 
                 return (
                     <div key={i} className="flex-1 flex flex-col items-center h-full justify-end group">
-                        {/* Tooltip placeholder (simple browser title for now, could be advanced custom tooltip) */}
-                        <div className="relative w-full rounded-t-lg overflow-hidden flex flex-col-reverse justify-start transition-transform hover:scale-105" title={`${col.label}: ${valueFormatter(col.total)}`} style={{ height: `${heightPercent}%` }}>
-                            {col.segments.map((seg, idx) => {
-                                const segHeightPercent = (seg.value / col.total) * 100;
-                                return (
-                                    <motion.div
-                                        key={idx}
-                                        initial={{ height: 0 }}
-                                        animate={{ height: `${segHeightPercent}%` }}
-                                        transition={{ duration: 0.5, delay: i * 0.05 }}
-                                        style={{ backgroundColor: seg.color }}
-                                        className="w-full"
-                                    />
-                                )
-                            })}
+                        <div className="relative w-full flex-1 flex items-end">
+                            {!!col.ghost && (
+                                <div
+                                    className="absolute bottom-0 inset-x-0 rounded-t-lg border border-dashed border-textMuted/60 pointer-events-none"
+                                    style={{ height: `${(col.ghost / maxTotal) * 100}%` }}
+                                />
+                            )}
+                            {/* Tooltip placeholder (simple browser title for now, could be advanced custom tooltip) */}
+                            <div className="relative w-full rounded-t-lg overflow-hidden flex flex-col-reverse justify-start transition-transform hover:scale-105" title={`${col.label}: ${valueFormatter(col.total)}${col.ghost !== undefined ? ` (vs ${valueFormatter(col.ghost)})` : ''}`} style={{ height: `${heightPercent}%` }}>
+                                {col.segments.map((seg, idx) => {
+                                    const segHeightPercent = (seg.value / col.total) * 100;
+                                    return (
+                                        <motion.div
+                                            key={idx}
+                                            initial={{ height: 0 }}
+                                            animate={{ height: `${segHeightPercent}%` }}
+                                            transition={{ duration: 0.5, delay: i * 0.05 }}
+                                            style={{ backgroundColor: seg.color }}
+                                            className="w-full"
+                                        />
+                                    )
+                                })}
+                            </div>
                         </div>
                         <div className="mt-2 text-[10px] text-textMuted truncate w-full text-center font-mono">
                             {col.label}
@@ -149,3 +177,193 @@ export const StackedBarChart: React.FC<{ data: StackedBarDataPoint[]; height?: n
         </div>
     );
 };
+
+
+// --- Day Dial ---
+// 24 hours around a ring starting at the top with `dayStart`; uncovered stretches show as bare track
+export const DayDial: React.FC<{
+    data: DayArcDataPoint[];
+    dayStart: Date;
+    dayEnd: Date; // 23 or 25 hours after dayStart around DST changes
+    now?: Date;
+    size?: number;
+    centerLabel?: string;
+    centerValue?: string;
+    onSelect?: (id: string) => void;
+}> = ({ data, dayStart, dayEnd, now, size = 220, centerLabel, centerValue, onSelect }) => {
+    const span = dayEnd.getTime() - dayStart.getTime();
+    const radius = 80;
+    const width = 18;
+
+    const fractionOf = (date: Date) => Math.min(Math.max((date.getTime() - dayStart.getTime()) / span, 0), 1);
+    // getCoordinatesForPercent starts at 3 o'clock; shift a quarter turn so the day starts at the top
+    const pointAt = (fraction: number, r: number) => {
+        const [x, y] = getCoordinatesForPercent(fraction - 0.25);
+        return [100 + r * x, 100 + r * y];
+    };
+
+    const arcs = data.map(arc => {
+        const from = fractionOf(arc.start);
+        // A full ring can't be drawn as a single arc
+        const to = Math.min(fractionOf(arc.end), from + 0.9999);
+        const [startX, startY] = pointAt(from, radius);
+        const [endX, endY] = pointAt(to, radius);
+        return {
+            ...arc,
+            d: `M ${startX} ${startY} A ${radius} ${radius} 0 ${to - from > 0.5 ? 1 : 0} 1 ${endX} ${endY}`
+        };
+    });
+
+    const nowFraction = now && now >= dayStart && now < dayEnd ? fractionOf(now) : null;
+    // Ticks sit at wall-clock hours, so they shift on days with a DST change
+    const ticks = [0, 6, 12, 18].map(offset => {
+        const at = new Date(dayStart);
+        at.setHours(dayStart.getHours() + offset);
+        return {
+            fraction: fractionOf(at),
+            label: String((dayStart.getHours() + offset) % 24).padStart(2, '0')
+        };
+    });
+
+    return (
+        <div className="relative flex justify-center items-center" style={{ width: size, height: size }}>
+            <svg viewBox="0 0 200 200" className="w-full h-full">
+                <circle cx={100} cy={100} r={radius} fill="none" stroke="currentColor" strokeWidth={width} className="text-surfaceHighlight" />
+
+                {ticks.map(tick => {
+                    const [x, y] = pointAt(tick.fraction, radius + width / 2 + 8);
+                    return (
+                        <text key={tick.label} x={x} y={y} textAnchor="middle" dominantBaseline="middle" className="fill-current text-textMuted font-mono" fontSize={8}>
+                            {tick.label}
+                        </text>
+                    );
+                })}
+
+                {arcs.map((arc, i) => (
+                    <motion.path
+                        key={arc.key}
+                        d={arc.d}
+                        fill="none"
+                        stroke={arc.color}
+                        strokeWidth={width}
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: i * 0.03 }}
+                        onClick={onSelect && (() => onSelect(arc.id))}
+                        className={onSelect ? 'cursor-pointer hover:opacity-80' : undefined}
+                    >
+                        <title>{arc.label}</title>
+                    </motion.path>
+                ))}
+
+                {nowFraction !== null && (() => {
+                    const [innerX, innerY] = pointAt(nowFraction, radius - width / 2 - 4);
+                    const [outerX, outerY] = pointAt(nowFraction, radius + width / 2 + 2);
+                    return <line x1={innerX} y1={innerY} x2={outerX} y2={outerY} stroke="currentColor" strokeWidth={2} strokeLinecap="round" className="text-textMain" />;
+                })()}
+            </svg>
+            {(centerLabel || centerValue) && (
+                <div className="absolute flex flex-col items-center justify-center text-center pointer-events-none">
+                    {centerLabel && <span className="text-[10px] text-textMuted uppercase tracking-wider">{centerLabel}</span>}
+                    {centerValue && <span className="text-lg font-bold text-textMain">{centerValue}</span>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+// --- Calendar Heatmap ---
+// One cell per day in week columns with Monday on top; intensity steps with the value
+export const CalendarHeatmap: React.FC<{
+    data: HeatmapDataPoint[];
+    color: string;
+    valueFormatter?: (v: number) => string;
+    onSelect?: (date: Date) => void;
+}> = ({ data, color, valueFormatter = (v) => `${Math.round(v)}`, onSelect }) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const max = Math.max(...data.map(d => d.value), 1);
+
+    const weeks: (HeatmapDataPoint | null)[][] = [];
+    data.forEach(point => {
+        const row = (point.date.getDay() + 6) % 7;
+        if (row === 0 || weeks.length === 0) weeks.push(Array(7).fill(null));
+        weeks[weeks.length - 1][row] = point;
+    });
+
+    // Open on the most recent weeks
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollLeft = scrollRef.current.scrollWidth;
+    }, [data.length]);
+
+    return (
+        <div ref={scrollRef} className="w-full overflow-x-auto no-scrollbar">
+            <div className="inline-flex gap-[3px]">
+                {weeks.map((week, i) => {
+                    // Label the column where a month starts
+                    const monthStart = week.find(p => p && p.date.getDate() === 1);
+                    return (
+                        <div key={i} className="flex flex-col gap-[3px]">
+                            <div className="h-3 w-2.5 text-[8px] text-textMuted font-mono leading-3 whitespace-nowrap">
+                                {monthStart ? format(monthStart.date, 'MMM') : ''}
+                            </div>
+                            {week.map((point, row) => {
+                                if (!point) return <div key={row} className="w-2.5 h-2.5" />;
+                                const level = heatLevel(point.value, max);
+                                return (
+                                    <button
+                                        key={row}
+                                        onClick={onSelect && (() => onSelect(point.date))}
+                                        title={`${format(point.date, 'EEE, MMM d')}: ${valueFormatter(point.value)}`}
+                                        className={`w-2.5 h-2.5 rounded-sm ${level === 0 ? 'bg-surfaceHighlight' : ''} ${onSelect ? 'hover:ring-1 hover:ring-textMuted' : 'cursor-default'}`}
+                                        style={level > 0 ? { backgroundColor: color, opacity: HEAT_OPACITY[level] } : undefined}
+                                    />
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+
+// --- Hour Grid ---
+// Rows by columns of cells (e.g. weekday by hour), intensity steps with the value
+export const HourGrid: React.FC<{
+    data: number[][];
+    rowLabels: string[];
+    columnLabels: string[];
+    labelEvery?: number; // Only every nth column label is printed; all show on hover
+    color: string;
+    valueFormatter?: (v: number) => string;
+}> = ({ data, rowLabels, columnLabels, labelEvery = 1, color, valueFormatter = (v) => `${Math.round(v)}` }) => {
+    const max = Math.max(...data.flat(), 1);
+
+    return (
+        <div className="w-full space-y-[3px]">
+            {data.map((row, r) => (
+                <div key={r} className="flex items-center gap-[3px]">
+                    <span className="w-4 shrink-0 text-[9px] text-textMuted font-mono">{rowLabels[r]}</span>
+                    {row.map((value, c) => {
+                        const level = heatLevel(value, max);
+                        return (
+                            <div
+                                key={c}
+                                title={`${rowLabels[r]} ${columnLabels[c]}: ${valueFormatter(value)}`}
+                                className={`flex-1 aspect-square rounded-sm ${level === 0 ? 'bg-surfaceHighlight' : ''}`}
+                                style={level > 0 ? { backgroundColor: color, opacity: HEAT_OPACITY[level] } : undefined}
+                            />
+                        );
+                    })}
+                </div>
+            ))}
+            <div className="flex gap-[3px] pl-[19px]">
+                {columnLabels.map((label, c) => (
+                    <span key={c} className="flex-1 text-[8px] text-textMuted font-mono whitespace-nowrap">{c % labelEvery === 0 ? label : ''}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
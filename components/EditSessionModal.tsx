@@ -1,24 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Save, Clock } from 'lucide-react';
-import { Session } from '../types';
+import { X, Save, Clock, AlertTriangle } from 'lucide-react';
+import { Session, CategoryItem, OverlapFix } from '../types';
+import {
+    getCategoryName,
+    findCategory,
+    parseTags,
+    formatTags,
+    endSession,
+    findOverlaps,
+    trimNeighbours,
+    shiftPastOverlaps
+} from '../utils';
 import { format } from 'date-fns';
 
 interface EditSessionModalProps {
     isOpen: boolean;
     onClose: () => void;
     session: Session | null;
-    onSave: (updatedSession: Session) => void;
+    sessions: Session[];
+    categories: CategoryItem[];
+    onSave: (updatedSession: Session, fix?: OverlapFix) => void;
 }
 
 const EditSessionModal: React.FC<EditSessionModalProps> = ({
     isOpen,
     onClose,
     session,
+    sessions,
+    categories,
     onSave
 }) => {
     const [startTime, setStartTime] = useState('');
     const [endTime, setEndTime] = useState('');
+    const [notes, setNotes] = useState('');
+    const [tagsInput, setTagsInput] = useState('');
+    const [categoryId, setCategoryId] = useState('');
+    // Set when the edited times collide with other sessions and a resolution is needed
+    const [pending, setPending] = useState<{ session: Session; overlaps: Session[] } | null>(null);
 
     useEffect(() => {
         if (session) {
@@ -29,9 +48,21 @@ const EditSessionModal: React.FC<EditSessionModalProps> = ({
             } else {
                 setEndTime('');
             }
+            setNotes(session.notes ?? '');
+            setTagsInput(formatTags(session.tags));
+            setCategoryId(findCategory(session, categories)?.id ?? '');
+            setPending(null);
         }
     }, [session]);
 
+    // Any edit invalidates the overlap check; saving again re-runs it on the new values
+    useEffect(() => {
+        setPending(null);
+    }, [startTime, endTime, notes, tagsInput, categoryId]);
+
+    // Drafts (backdated entries, filled gaps) can still pick their activity
+    const isNew = !!session && !sessions.some(s => s.id === session.id);
+
     const handleSave = () => {
         if (!session) return;
 
@@ -61,12 +92,41 @@ const EditSessionModal: React.FC<EditSessionModalProps> = ({
             return;
         }
 
-        onSave({
-            ...session,
+        // Ending a paused session closes its open pause too
+        const base = newEnd && session.is_active ? endSession(session, newEnd) : session;
+        const category = isNew ? categories.find(c => c.id === categoryId) : undefined;
+
+        const updated: Session = {
+            ...base,
+            ...(category && { category: category.name, category_id: category.id }),
             start_time: newStart,
             end_time: newEnd,
-            is_active: isActive
-        });
+            is_active: isActive,
+            notes: notes.trim() || undefined,
+            tags: parseTags(tagsInput)
+        };
+
+        const overlaps = findOverlaps(updated, sessions, categories);
+        if (overlaps.length > 0) {
+            setPending({ session: updated, overlaps });
+            return;
+        }
+
+        onSave(updated);
+        onClose();
+    };
+
+    const shifted = pending ? shiftPastOverlaps(pending.session, sessions, categories) : null;
+
+    const resolve = (resolution: 'trim' | 'shift' | 'keep') => {
+        if (!pending) return;
+        if (resolution === 'trim') {
+            onSave(pending.session, trimNeighbours(pending.session, pending.overlaps));
+        } else if (resolution === 'shift' && shifted) {
+            onSave(shifted);
+        } else {
+            onSave(pending.session);
+        }
         onClose();
     };
 
@@ -99,7 +159,19 @@ const EditSessionModal: React.FC<EditSessionModalProps> = ({
                         <div className="p-6 space-y-4">
                             <div>
                                 <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">Activity</label>
-                                <div className="text-textMain font-medium text-lg">{session.category}</div>
+                                {isNew ? (
+                                    <select
+                                        value={categoryId}
+                                        onChange={(e) => setCategoryId(e.target.value)}
+                                        className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                                    >
+                                        {categories.filter(c => !c.archived || c.id === categoryId).map(c => (
+                                            <option key={c.id} value={c.id}>{c.name}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <div className="text-textMain font-medium text-lg">{getCategoryName(session, categories)}</div>
+                                )}
                             </div>
 
                             <div>
@@ -132,6 +204,70 @@ const EditSessionModal: React.FC<EditSessionModalProps> = ({
                                 )}
                             </div>
 
+                            <div>
+                                <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">Notes</label>
+                                <textarea
+                                    value={notes}
+                                    onChange={(e) => setNotes(e.target.value)}
+                                    rows={3}
+                                    placeholder="What did you work on?"
+                                    className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-textMain focus:outline-none focus:border-textMain/50 resize-none"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">Tags</label>
+                                <input
+                                    type="text"
+                                    value={tagsInput}
+                                    onChange={(e) => setTagsInput(e.target.value)}
+                                    placeholder="#client-a #review"
+                                    className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                                />
+                            </div>
+
+                            {pending && (
+                                <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-3 space-y-2">
+                                    <p className="text-xs text-textMain font-medium flex items-center gap-1.5">
+                                        <AlertTriangle size={14} className="text-yellow-500" /> Overlaps {pending.overlaps.length} {pending.overlaps.length === 1 ? 'session' : 'sessions'}
+                                    </p>
+                                    <ul className="space-y-0.5">
+                                        {pending.overlaps.map(o => (
+                                            <li key={o.id} className="text-[10px] text-textMuted font-mono flex justify-between">
+                                                <span className="truncate">{getCategoryName(o, categories)}</span>
+                                                <span className="shrink-0 ml-2">
+                                                    {format(new Date(o.start_time), 'MMM d HH:mm')} → {o.end_time ? format(new Date(o.end_time), 'HH:mm') : 'Now'}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <div className="grid grid-cols-3 gap-1.5 pt-1">
+                                        <button
+                                            onClick={() => resolve('trim')}
+                                            className="py-1.5 rounded-lg border border-border text-xs text-textMain hover:bg-surfaceHighlight transition-colors"
+                                            title="Cut the other sessions back so this one fits"
+                                        >
+                                            Trim others
+                                        </button>
+                                        <button
+                                            onClick={() => resolve('shift')}
+                                            disabled={!shifted}
+                                            className="py-1.5 rounded-lg border border-border text-xs text-textMain hover:bg-surfaceHighlight transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                            title={shifted ? `Move to ${format(new Date(shifted.start_time), 'HH:mm')}` : 'No free slot before now'}
+                                        >
+                                            Shift this
+                                        </button>
+                                        <button
+                                            onClick={() => resolve('keep')}
+                                            className="py-1.5 rounded-lg border border-border text-xs text-textMuted hover:text-textMain hover:bg-surfaceHighlight transition-colors"
+                                            title="Save with the overlap"
+                                        >
+                                            Keep overlap
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="pt-4">
                                 <button
                                     onClick={handleSave}
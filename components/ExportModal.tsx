@@ -0,0 +1,265 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Download, Check } from 'lucide-react';
+import { format, startOfWeek, startOfMonth, addDays, addWeeks, addMonths } from 'date-fns';
+import { Session, CategoryItem } from '../types';
+import {
+  ExportOptions,
+  ExportFormat,
+  DEFAULT_EXPORT_OPTIONS,
+  selectExportSessions,
+  downloadExport
+} from '../services/exportService';
+import { trackingDayOf, trackingDayBounds } from '../utils';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: Session[];
+  categories: CategoryItem[];
+  dayStartHour: number;
+}
+
+type RangePreset = 'thisWeek' | 'lastWeek' | 'thisMonth' | 'all' | 'custom';
+
+const PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'thisWeek', label: 'This Week' },
+  { id: 'lastWeek', label: 'Last Week' },
+  { id: 'thisMonth', label: 'This Month' },
+  { id: 'all', label: 'All Time' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'json', label: 'JSON' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'ics', label: 'Calendar' },
+];
+
+const ROUNDING: { label: string; roundTo: ExportOptions['roundTo']; rounding: ExportOptions['rounding'] }[] = [
+  { label: 'None', roundTo: 0, rounding: 'nearest' },
+  { label: '5m nearest', roundTo: 5, rounding: 'nearest' },
+  { label: '5m up', roundTo: 5, rounding: 'up' },
+  { label: '15m nearest', roundTo: 15, rounding: 'nearest' },
+  { label: '15m up', roundTo: 15, rounding: 'up' },
+];
+
+// [from, to) in calendar dates for a preset; weeks start on Monday like the statistics view
+const presetRange = (preset: RangePreset, today: Date): { from: Date | null; to: Date | null } => {
+  const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+  switch (preset) {
+    case 'thisWeek': return { from: weekStart, to: addWeeks(weekStart, 1) };
+    case 'lastWeek': return { from: addWeeks(weekStart, -1), to: weekStart };
+    case 'thisMonth': return { from: startOfMonth(today), to: addMonths(startOfMonth(today), 1) };
+    default: return { from: null, to: null };
+  }
+};
+
+const Segmented = <T extends string | number>({ options, value, onChange }: {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="bg-background rounded-xl p-1 flex gap-1 border border-border">
+    {options.map(o => (
+      <button
+        key={o.id}
+        onClick={() => onChange(o.id)}
+        className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-all ${value === o.id
+          ? 'bg-surface text-textMain shadow-sm'
+          : 'text-textMuted hover:text-textMain'
+          }`}
+      >
+        {o.label}
+      </button>
+    ))}
+  </div>
+);
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, sessions, categories, dayStartHour }) => {
+  const [preset, setPreset] = useState<RangePreset>('thisWeek');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const update = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const resolvedOptions = useMemo((): ExportOptions => {
+    const range = preset === 'custom'
+      ? {
+        from: customFrom ? new Date(`${customFrom}T00:00`) : null,
+        // Inclusive of the whole "to" day
+        to: customTo ? addDays(new Date(`${customTo}T00:00`), 1) : null
+      }
+      : presetRange(preset, trackingDayOf(new Date(), dayStartHour));
+    // Dates become moments at the configured start of day
+    const shift = (date: Date | null) => date && trackingDayBounds(date, dayStartHour).start;
+    return {
+      ...options,
+      from: shift(range.from),
+      to: shift(range.to),
+      dayStartHour,
+      categoryIds: excludedIds.size > 0 ? categories.map(c => c.id).filter(id => !excludedIds.has(id)) : null
+    };
+  }, [options, preset, customFrom, customTo, excludedIds, categories, dayStartHour]);
+
+  const count = useMemo(
+    () => selectExportSessions(sessions, categories, resolvedOptions).length,
+    [sessions, categories, resolvedOptions]
+  );
+
+  const toggleCategory = (id: string) => {
+    const next = new Set(excludedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcludedIds(next);
+  };
+
+  const isTabular = options.format !== 'ics';
+  const roundingIndex = ROUNDING.findIndex(r => r.roundTo === options.roundTo && r.rounding === options.rounding);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.95, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-surface border border-border rounded-2xl w-full max-w-md max-h-[85vh] overflow-hidden flex flex-col shadow-2xl"
+          >
+            {/* Header */}
+            <div className="p-5 border-b border-border flex justify-between items-center bg-surfaceHighlight/50">
+              <h2 className="text-lg font-semibold text-textMain">Export Sessions</h2>
+              <button onClick={onClose} className="text-textMuted hover:text-textMain transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="overflow-y-auto p-5 space-y-5 no-scrollbar">
+              {/* Range */}
+              <section>
+                <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-2">Date Range</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {PRESETS.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => setPreset(p.id)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${preset === p.id
+                        ? 'bg-textMain text-surface border-textMain'
+                        : 'border-border text-textMuted hover:text-textMain'
+                        }`}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+                {preset === 'custom' && (
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="date"
+                      value={customFrom}
+                      onChange={(e) => setCustomFrom(e.target.value)}
+                      className="flex-1 min-w-0 bg-background border border-border rounded-lg px-2 py-1.5 text-xs text-textMain focus:outline-none focus:border-textMain/50"
+                      aria-label="From"
+                    />
+                    <input
+                      type="date"
+                      value={customTo}
+                      onChange={(e) => setCustomTo(e.target.value)}
+                      className="flex-1 min-w-0 bg-background border border-border rounded-lg px-2 py-1.5 text-xs text-textMain focus:outline-none focus:border-textMain/50"
+                      aria-label="To"
+                    />
+                  </div>
+                )}
+                {preset !== 'custom' && resolvedOptions.from && resolvedOptions.to && (
+                  <p className="text-[10px] text-textMuted mt-1.5">
+                    {format(resolvedOptions.from, 'MMM d')} – {format(addDays(resolvedOptions.to, -1), 'MMM d, yyyy')}
+                  </p>
+                )}
+              </section>
+
+              {/* Categories */}
+              <section>
+                <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-2">Activities</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {categories.map(c => {
+                    const included = !excludedIds.has(c.id);
+                    return (
+                      <button
+                        key={c.id}
+                        onClick={() => toggleCategory(c.id)}
+                        className={`px-2.5 py-1.5 rounded-lg text-xs font-medium border flex items-center gap-1 transition-colors ${included
+                          ? 'border-textMain/40 text-textMain'
+                          : 'border-border text-textMuted/60 line-through'
+                          }`}
+                      >
+                        {included && <Check size={12} />}
+                        {c.name}{c.archived && ' (archived)'}
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+
+              {/* Format */}
+              <section className="space-y-3">
+                <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider">Format</h3>
+                <Segmented options={FORMATS} value={options.format} onChange={(f) => update({ format: f })} />
+
+                {isTabular && (
+                  <>
+                    <div>
+                      <p className="text-[10px] text-textMuted mb-1 px-1">Timestamps</p>
+                      <Segmented
+                        options={[{ id: 'iso', label: 'ISO 8601' }, { id: 'local', label: 'Local Time' }]}
+                        value={options.timestampFormat}
+                        onChange={(t) => update({ timestampFormat: t })}
+                      />
+                    </div>
+                    <div>
+                      <p className="text-[10px] text-textMuted mb-1 px-1">Round Durations</p>
+                      <Segmented
+                        options={ROUNDING.map((r, i) => ({ id: i, label: r.label }))}
+                        value={roundingIndex}
+                        onChange={(i) => update({ roundTo: ROUNDING[i].roundTo, rounding: ROUNDING[i].rounding })}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between text-sm text-textMain px-1 cursor-pointer">
+                      Split sessions at {dayStartHour === 0 ? 'midnight' : `${String(dayStartHour).padStart(2, '0')}:00`}
+                      <input
+                        type="checkbox"
+                        checked={options.splitAtMidnight}
+                        onChange={(e) => update({ splitAtMidnight: e.target.checked })}
+                        className="accent-current"
+                      />
+                    </label>
+                  </>
+                )}
+              </section>
+
+              <button
+                onClick={() => downloadExport(sessions, categories, resolvedOptions)}
+                disabled={count === 0}
+                className="w-full bg-textMain text-surface p-3 rounded-xl font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download size={18} /> Export {count} {count === 1 ? 'Session' : 'Sessions'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ExportModal;
@@ -1,14 +1,20 @@
 import React from 'react';
-import { Session } from '../types';
+import { Session, CategoryItem } from '../types';
 import { motion } from 'framer-motion';
 import { AlertTriangle } from 'lucide-react';
+import { getCategoryName } from '../utils';
 
 interface GuardrailProps {
   sessions: Session[];
+  categories: CategoryItem[];
 }
 
-const Guardrail: React.FC<GuardrailProps> = ({ sessions }) => {
-  const longRunningSessions = sessions.filter(s => {
+// More parallel trackers than this usually means one was forgotten
+const MAX_PARALLEL = 3;
+
+const Guardrail: React.FC<GuardrailProps> = ({ sessions, categories }) => {
+  const activeSessions = sessions.filter(s => s.is_active);
+  const longRunningSessions = activeSessions.filter(s => {
     if (!s.is_active) return false;
     const start = new Date(s.start_time).getTime();
     const now = new Date().getTime();
@@ -16,7 +22,11 @@ const Guardrail: React.FC<GuardrailProps> = ({ sessions }) => {
     return hours > 24;
   });
 
-  if (longRunningSessions.length === 0) return null;
+  const tooManyRunning = activeSessions.length > MAX_PARALLEL;
+
+  if (longRunningSessions.length === 0 && !tooManyRunning) return null;
+
+  const names = (list: Session[]) => list.map(s => getCategoryName(s, categories)).join(', ');
 
   return (
     <motion.div 
@@ -26,11 +36,25 @@ const Guardrail: React.FC<GuardrailProps> = ({ sessions }) => {
     >
       <AlertTriangle className="text-red-500 shrink-0" size={20} />
       <div>
-        <h4 className="text-red-400 font-medium text-sm">Long Session Detected</h4>
-        <p className="text-red-400/70 text-xs mt-1">
-          You have {longRunningSessions.length} session(s) running for over 24 hours. 
-          Please verify or stop them.
-        </p>
+        {longRunningSessions.length > 0 && (
+          <>
+            <h4 className="text-red-400 font-medium text-sm">Long Session Detected</h4>
+            <p className="text-red-400/70 text-xs mt-1">
+              {names(longRunningSessions)} {longRunningSessions.length === 1 ? 'has' : 'have'} been running for over 24 hours.
+              Please verify or stop {longRunningSessions.length === 1 ? 'it' : 'them'}.
+            </p>
+          </>
+        )}
+        {tooManyRunning && (
+          <>
+            <h4 className={`text-red-400 font-medium text-sm ${longRunningSessions.length > 0 ? 'mt-3' : ''}`}>
+              {activeSessions.length} Trackers Running
+            </h4>
+            <p className="text-red-400/70 text-xs mt-1">
+              {names(activeSessions)} are all running at once. Stop any you forgot about.
+            </p>
+          </>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,348 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, AlertCircle, ArrowLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import { Session, CategoryItem } from '../types';
+import {
+  ImportTable,
+  ColumnMapping,
+  CategoryMap,
+  ImportPlan,
+  parseImportFile,
+  guessMapping,
+  buildImportPlan
+} from '../services/importService';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: Session[];
+  categories: CategoryItem[];
+  onImport: (plan: ImportPlan) => void;
+}
+
+type Step = 'pick' | 'map' | 'categories' | 'preview';
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; optional?: boolean }[] = [
+  { key: 'category', label: 'Activity' },
+  { key: 'start', label: 'Start Time' },
+  { key: 'end', label: 'End Time', optional: true },
+  { key: 'duration', label: 'Duration (Minutes)', optional: true },
+  { key: 'notes', label: 'Notes', optional: true },
+  { key: 'tags', label: 'Tags', optional: true },
+];
+
+const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, sessions, categories, onImport }) => {
+  const [step, setStep] = useState<Step>('pick');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [categoryMap, setCategoryMap] = useState<CategoryMap>({});
+  const [error, setError] = useState<string | null>(null);
+  const [skipOverlapping, setSkipOverlapping] = useState(false);
+
+  const plan = useMemo(() => {
+    if (!table || !mapping || step !== 'preview') return null;
+    return buildImportPlan(table, mapping, sessions, categories, categoryMap);
+  }, [table, mapping, categoryMap, step, sessions, categories]);
+
+  // Distinct event titles in a calendar file, most frequent first
+  const sourceNames = useMemo(() => {
+    if (!table?.isCalendar || !mapping) return [];
+    const counts = new Map<string, { name: string; count: number }>();
+    table.rows.forEach(row => {
+      const name = (row[mapping.category] ?? '').trim();
+      if (!name) return;
+      const entry = counts.get(name.toLowerCase()) ?? { name, count: 0 };
+      entry.count++;
+      counts.set(name.toLowerCase(), entry);
+    });
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+  }, [table, mapping]);
+
+  const reset = () => {
+    setStep('pick');
+    setTable(null);
+    setMapping(null);
+    setCategoryMap({});
+    setError(null);
+    setSkipOverlapping(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        setError("The file has no rows to import.");
+        return;
+      }
+      const guessed = guessMapping(parsed.headers);
+      setTable(parsed);
+      setMapping(guessed);
+      if (parsed.isCalendar) {
+        // Calendar titles are free text: pre-select activities with the same name
+        const byName = new Map<string, string>(categories.map(c => [c.name.toLowerCase(), c.name]));
+        const initial: CategoryMap = {};
+        parsed.rows.forEach(row => {
+          const key = (row[guessed.category] ?? '').trim().toLowerCase();
+          if (key) initial[key] = byName.get(key) ?? '';
+        });
+        setCategoryMap(initial);
+        setStep('categories');
+        return;
+      }
+      // ChronoPulse's own files map themselves; foreign files get a mapping step
+      const canSkipMapping = parsed.isNative && guessed.category >= 0 && guessed.start >= 0;
+      setStep(canSkipMapping ? 'preview' : 'map');
+    } catch (e) {
+      console.error("Import parse error:", e);
+      setError("Could not read this file. Use a CSV, JSON or iCalendar (.ics) export.");
+    }
+  };
+
+  const importCount = plan ? plan.sessions.length - (skipOverlapping ? plan.overlapping.length : 0) : 0;
+
+  const handleCommit = () => {
+    if (!plan || importCount === 0) return;
+    if (skipOverlapping) {
+      const sessionsToImport = plan.sessions.filter(s => !plan.overlapping.includes(s.id));
+      const usedIds = new Set(sessionsToImport.map(s => s.category_id));
+      onImport({
+        ...plan,
+        sessions: sessionsToImport,
+        newCategories: plan.newCategories.filter(c => usedIds.has(c.id)),
+        overlapping: []
+      });
+    } else {
+      onImport(plan);
+    }
+    handleClose();
+  };
+
+  const mappingValid = !!mapping && mapping.category >= 0 && mapping.start >= 0 && (mapping.end >= 0 || mapping.duration >= 0);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.95, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-surface border border-border rounded-2xl w-full max-w-md max-h-[85vh] overflow-hidden flex flex-col shadow-2xl"
+          >
+            {/* Header */}
+            <div className="p-5 border-b border-border flex justify-between items-center bg-surfaceHighlight/50">
+              <h2 className="text-lg font-semibold text-textMain flex items-center gap-2">
+                {step !== 'pick' && (
+                  <button
+                    onClick={() => {
+                      if (step === 'preview' && table?.isCalendar) setStep('categories');
+                      else setStep(step === 'preview' && !table?.isNative ? 'map' : 'pick');
+                    }}
+                    className="text-textMuted hover:text-textMain transition-colors"
+                    aria-label="Back"
+                  >
+                    <ArrowLeft size={18} />
+                  </button>
+                )}
+                Import Sessions
+              </h2>
+              <button onClick={handleClose} className="text-textMuted hover:text-textMain transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="overflow-y-auto p-5 space-y-5 no-scrollbar">
+              {step === 'pick' && (
+                <>
+                  <label className="w-full flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed border-border text-textMuted hover:text-textMain hover:border-textMuted transition-colors cursor-pointer">
+                    <Upload size={24} />
+                    <span className="text-sm font-medium">Choose a CSV, JSON or .ics file</span>
+                    <input
+                      type="file"
+                      accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {error && (
+                    <p className="text-xs text-danger flex items-center gap-1.5">
+                      <AlertCircle size={14} /> {error}
+                    </p>
+                  )}
+                </>
+              )}
+
+              {step === 'map' && table && mapping && (
+                <>
+                  <p className="text-xs text-textMuted">
+                    Match the columns in your file. Provide an end time, a duration, or both.
+                  </p>
+                  {MAPPING_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">
+                        {field.label} {field.optional && <span className="normal-case tracking-normal">(optional)</span>}
+                      </label>
+                      <select
+                        value={mapping[field.key]}
+                        onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                        className="w-full bg-background border border-border rounded-xl px-4 py-2.5 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                      >
+                        <option value={-1}>—</option>
+                        {table.headers.map((header, i) => (
+                          <option key={i} value={i}>{header || `Column ${i + 1}`} · {table.rows[0]?.[i] ?? ''}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setStep('preview')}
+                    disabled={!mappingValid}
+                    className="w-full bg-textMain text-surface p-3 rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Preview
+                  </button>
+                </>
+              )}
+
+              {step === 'categories' && (
+                <>
+                  <p className="text-xs text-textMuted">
+                    Choose an activity for each event title, or skip events you don't want as sessions.
+                  </p>
+                  <div className="space-y-2">
+                    {sourceNames.map(({ name, count }) => (
+                      <div key={name} className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-textMain truncate">{name}</p>
+                          <p className="text-[10px] text-textMuted">{count} {count === 1 ? 'event' : 'events'}</p>
+                        </div>
+                        <select
+                          value={categoryMap[name.toLowerCase()] === null ? '__skip' : categoryMap[name.toLowerCase()] ?? ''}
+                          onChange={(e) => setCategoryMap({
+                            ...categoryMap,
+                            [name.toLowerCase()]: e.target.value === '__skip' ? null : e.target.value
+                          })}
+                          className="w-40 shrink-0 bg-background border border-border rounded-xl px-3 py-2 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                        >
+                          <option value="">New: {name}</option>
+                          {categories.filter(c => !c.archived).map(c => (
+                            <option key={c.id} value={c.name}>{c.name}</option>
+                          ))}
+                          <option value="__skip">Skip</option>
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setStep('preview')}
+                    className="w-full bg-textMain text-surface p-3 rounded-xl font-medium hover:opacity-90 transition-opacity"
+                  >
+                    Preview
+                  </button>
+                </>
+              )}
+
+              {step === 'preview' && plan && (
+                <>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-background border border-border rounded-xl p-3">
+                      <div className="text-lg font-bold text-textMain">{plan.sessions.length}</div>
+                      <div className="text-[10px] text-textMuted uppercase tracking-wider">New</div>
+                    </div>
+                    <div className="bg-background border border-border rounded-xl p-3">
+                      <div className="text-lg font-bold text-textMain">{plan.duplicates}</div>
+                      <div className="text-[10px] text-textMuted uppercase tracking-wider">Duplicates</div>
+                    </div>
+                    <div className="bg-background border border-border rounded-xl p-3">
+                      <div className="text-lg font-bold text-textMain">{plan.issues.length}</div>
+                      <div className="text-[10px] text-textMuted uppercase tracking-wider">Invalid</div>
+                    </div>
+                  </div>
+
+                  {plan.skipped > 0 && (
+                    <p className="text-xs text-textMuted">{plan.skipped} skipped by your activity choices.</p>
+                  )}
+
+                  {plan.overlapping.length > 0 && (
+                    <label className="flex items-start gap-2 text-xs text-textMuted bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={skipOverlapping}
+                        onChange={(e) => setSkipOverlapping(e.target.checked)}
+                        className="mt-0.5 accent-current"
+                      />
+                      <span>
+                        <span className="text-textMain">{plan.overlapping.length} {plan.overlapping.length === 1 ? 'session overlaps' : 'sessions overlap'}</span> time
+                        that is already tracked. Skip them?
+                      </span>
+                    </label>
+                  )}
+
+                  {plan.newCategories.length > 0 && (
+                    <p className="text-xs text-textMuted">
+                      New activities will be created: <span className="text-textMain">{plan.newCategories.map(c => c.name).join(', ')}</span>
+                    </p>
+                  )}
+
+                  {plan.sessions.length > 0 && (
+                    <div className="space-y-1.5">
+                      {plan.sessions.slice(0, 5).map(s => (
+                        <div key={s.id} className="flex justify-between text-xs font-mono bg-background border border-border/50 rounded-lg px-3 py-2">
+                          <span className="text-textMain truncate">{s.category}</span>
+                          <span className="text-textMuted shrink-0 ml-2">
+                            {format(new Date(s.start_time), 'MMM d HH:mm')} → {format(new Date(s.end_time!), 'HH:mm')}
+                          </span>
+                        </div>
+                      ))}
+                      {plan.sessions.length > 5 && (
+                        <p className="text-[10px] text-textMuted text-center">and {plan.sessions.length - 5} more</p>
+                      )}
+                    </div>
+                  )}
+
+                  {plan.issues.length > 0 && (
+                    <div className="space-y-1 max-h-32 overflow-y-auto no-scrollbar">
+                      {plan.issues.slice(0, 20).map(issue => (
+                        <p key={issue.line} className="text-[10px] text-danger font-mono">
+                          Line {issue.line}: {issue.reason}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleCommit}
+                    disabled={importCount === 0}
+                    className="w-full bg-textMain text-surface p-3 rounded-xl font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Upload size={18} /> Import {importCount} Sessions
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ImportModal;
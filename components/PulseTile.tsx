@@ -1,21 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, useAnimation, PanInfo } from 'framer-motion';
 import { CategoryItem, Session } from '../types';
 import * as LucideIcons from 'lucide-react';
 import clsx from 'clsx';
 import { SUPPORTED_ICONS } from '../constants';
+import { isPaused, trackedMs } from '../utils';
+
+// Hold this long on a running tile to pause or resume it
+const LONG_PRESS_MS = 500;
 
 interface PulseTileProps {
   category: CategoryItem;
   activeSession?: Session;
   onStart: (category: CategoryItem) => void;
   onStop: (sessionId: string) => void;
+  onTogglePause: (sessionId: string) => void;
 }
 
-const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart, onStop }) => {
+const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart, onStop, onTogglePause }) => {
   const [elapsed, setElapsed] = useState<string>('00:00:00');
   const controls = useAnimation();
   const isActive = !!activeSession;
+  const paused = !!activeSession && isPaused(activeSession);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressed = useRef(false);
 
   // Dynamic Icon Lookup
   // @ts-ignore - Dynamic lookup
@@ -26,9 +34,8 @@ const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart,
     let interval: ReturnType<typeof setInterval>;
     if (isActive && activeSession) {
       const updateTimer = () => {
-        const start = new Date(activeSession.start_time).getTime();
-        const now = new Date().getTime();
-        const diff = now - start;
+        // Paused time is left out, so the clock holds still while paused
+        const diff = trackedMs(activeSession);
 
         const h = Math.floor(diff / 3600000);
         const m = Math.floor((diff % 3600000) / 60000);
@@ -45,18 +52,41 @@ const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart,
     return () => clearInterval(interval);
   }, [isActive, activeSession]);
 
+  const cancelLongPress = () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+    longPressTimer.current = null;
+  };
+
+  useEffect(() => cancelLongPress, []);
+
   const handlePointerDown = () => {
     controls.start({
       scale: 0.95,
       transition: { duration: 0.1 }
     });
+
+    longPressed.current = false;
+    if (isActive && activeSession) {
+      cancelLongPress();
+      longPressTimer.current = setTimeout(() => {
+        longPressed.current = true;
+        onTogglePause(activeSession.id);
+        if (navigator.vibrate) navigator.vibrate([30, 30, 30]);
+      }, LONG_PRESS_MS);
+    }
   };
 
   const handlePointerUp = () => {
+    cancelLongPress();
     controls.start({ scale: 1, transition: { type: 'spring', stiffness: 500, damping: 30 } });
   };
 
   const handleTap = () => {
+    // The long press already paused or resumed
+    if (longPressed.current) {
+      longPressed.current = false;
+      return;
+    }
     if (isActive && activeSession) {
       onStop(activeSession.id);
     } else {
@@ -83,6 +113,8 @@ const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart,
         drag={isActive ? "y" : false}
         dragConstraints={{ top: 0, bottom: 0 }}
         dragElastic={{ top: 0.2, bottom: 0.05 }}
+        onDragStart={cancelLongPress}
+        title={isActive ? (paused ? 'Hold to resume' : 'Hold to pause') : undefined}
         onDragEnd={handleDragEnd}
         className={clsx(
           "relative z-10 w-full h-full rounded-2xl border flex flex-col items-center justify-center transition-all duration-500 overflow-hidden cursor-pointer",
@@ -92,7 +124,7 @@ const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart,
         )}
       >
         {/* Active Glow Pulse */}
-        {isActive && (
+        {isActive && !paused && (
           <div className="absolute inset-0 bg-textMain/5 animate-pulse-slow pointer-events-none" />
         )}
 
@@ -111,8 +143,9 @@ const PulseTile: React.FC<PulseTileProps> = ({ category, activeSession, onStart,
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
-              className="text-xs font-mono text-textMain/80 mt-1"
+              className={clsx("text-xs font-mono mt-1 flex items-center gap-1", paused ? "text-yellow-500" : "text-textMain/80")}
             >
+              {paused && <LucideIcons.Pause size={10} />}
               {elapsed}
             </motion.div>
           )}
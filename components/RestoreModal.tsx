@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, AlertCircle, ArchiveRestore } from 'lucide-react';
+import { format } from 'date-fns';
+import { BackupFile, RestoreMode } from '../types';
+import { parseBackup, summarizeRestore } from '../services/storageService';
+
+interface RestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+}
+
+const MODES: { id: RestoreMode; label: string; hint: string }[] = [
+  { id: 'merge', label: 'Merge', hint: 'Add what is missing; the newer copy of each record wins.' },
+  { id: 'replace', label: 'Replace', hint: 'Make this device match the backup exactly.' },
+];
+
+const RestoreModal: React.FC<RestoreModalProps> = ({ isOpen, onClose, onRestore }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = useMemo(() => backup ? summarizeRestore(backup, mode) : null, [backup, mode]);
+
+  const handleClose = () => {
+    setBackup(null);
+    setMode('merge');
+    setError(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read this backup.");
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace all data on this device with the backup?')) return;
+    onRestore(backup, mode);
+    handleClose();
+  };
+
+  const rows = summary ? [
+    { label: 'Sessions added', value: summary.sessionsAdded },
+    { label: 'Sessions updated', value: summary.sessionsUpdated },
+    { label: 'Sessions removed', value: summary.sessionsRemoved },
+    { label: 'Activities added', value: summary.categoriesAdded },
+    { label: 'Activities updated', value: summary.categoriesUpdated },
+    { label: 'Activities removed', value: summary.categoriesRemoved },
+  ] : [];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.95, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-surface border border-border rounded-2xl w-full max-w-md max-h-[85vh] overflow-hidden flex flex-col shadow-2xl"
+          >
+            {/* Header */}
+            <div className="p-5 border-b border-border flex justify-between items-center bg-surfaceHighlight/50">
+              <h2 className="text-lg font-semibold text-textMain">Restore Backup</h2>
+              <button onClick={handleClose} className="text-textMuted hover:text-textMain transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="overflow-y-auto p-5 space-y-5 no-scrollbar">
+              {!backup ? (
+                <>
+                  <label className="w-full flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed border-border text-textMuted hover:text-textMain hover:border-textMuted transition-colors cursor-pointer">
+                    <Upload size={24} />
+                    <span className="text-sm font-medium">Choose a backup file (.json)</span>
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {error && (
+                    <p className="text-xs text-danger flex items-center gap-1.5">
+                      <AlertCircle size={14} /> {error}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-xs text-textMuted">
+                    Backup from {format(new Date(backup.exported_at), 'MMMM d, yyyy HH:mm')} · {backup.sessions.length} sessions, {backup.categories.length} activities
+                  </p>
+
+                  <div>
+                    <div className="bg-background rounded-xl p-1 flex gap-1 border border-border">
+                      {MODES.map(m => (
+                        <button
+                          key={m.id}
+                          onClick={() => setMode(m.id)}
+                          className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${mode === m.id
+                            ? 'bg-surface text-textMain shadow-sm'
+                            : 'text-textMuted hover:text-textMain'
+                            }`}
+                        >
+                          {m.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-textMuted mt-1.5 px-1">{MODES.find(m => m.id === mode)?.hint}</p>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    {rows.map(row => (
+                      <div key={row.label} className="flex justify-between text-sm px-1">
+                        <span className="text-textMuted">{row.label}</span>
+                        <span className={`font-mono ${row.value > 0 ? 'text-textMain' : 'text-textMuted/50'}`}>{row.value}</span>
+                      </div>
+                    ))}
+                    {summary?.themeChanged && (
+                      <p className="text-xs text-textMuted px-1">Theme will switch to {backup.settings.theme}.</p>
+                    )}
+                    {summary?.dayStartChanged && (
+                      <p className="text-xs text-textMuted px-1">Days will start at {backup.settings.dayStartHour ? `${String(backup.settings.dayStartHour).padStart(2, '0')}:00` : 'midnight'}.</p>
+                    )}
+                    {summary?.concurrentModeChanged && (
+                      <p className="text-xs text-textMuted px-1">Parallel tracking will be turned {backup.settings.concurrentMode ? 'on' : 'off'}.</p>
+                    )}
+                  </div>
+
+                  <button
+                    onClick={handleRestore}
+                    className="w-full bg-textMain text-surface p-3 rounded-xl font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity"
+                  >
+                    <ArchiveRestore size={18} /> Restore
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RestoreModal;
@@ -1,19 +1,34 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Moon, Sun, Download, Trash2, Plus, AlertCircle, Check } from 'lucide-react';
+import { X, Moon, Sun, Download, Trash2, Plus, AlertCircle, Check, Edit2, Archive, ArchiveRestore, HardDrive, Cloud, LogOut, History, Upload, Save, Layers } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
 import { CategoryItem } from '../types';
 import { SUPPORTED_ICONS } from '../constants';
 import { v4 as uuidv4 } from 'uuid';
+import { getColor } from '../utils';
+import { BackendKind } from '../services/storageBackend';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   categories: CategoryItem[];
   onUpdateCategories: (newCategories: CategoryItem[]) => void;
+  onMergeCategory: (fromId: string, intoId: string) => void;
   theme: 'light' | 'dark';
   onToggleTheme: (theme: 'light' | 'dark') => void;
-  onExportCSV: () => void;
+  concurrentMode: boolean;
+  onToggleConcurrentMode: (enabled: boolean) => void;
+  dayStartHour: number;
+  onChangeDayStartHour: (hour: number) => void;
+  backendKind: BackendKind;
+  userEmail?: string;
+  onChangeBackend: (kind: BackendKind) => void;
+  onSignOut: () => void;
+  onOpenExport: () => void;
+  onOpenImport: () => void;
+  onDownloadBackup: () => void;
+  onOpenRestore: () => void;
+  onRollbackMigration?: () => void;
   onClearData: () => void;
 }
 
@@ -22,20 +37,36 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   categories,
   onUpdateCategories,
+  onMergeCategory,
   theme,
   onToggleTheme,
-  onExportCSV,
+  concurrentMode,
+  onToggleConcurrentMode,
+  dayStartHour,
+  onChangeDayStartHour,
+  backendKind,
+  userEmail,
+  onChangeBackend,
+  onSignOut,
+  onOpenExport,
+  onOpenImport,
+  onDownloadBackup,
+  onOpenRestore,
+  onRollbackMigration,
   onClearData
 }) => {
   const [newCategoryName, setNewCategoryName] = useState('');
   const [selectedIcon, setSelectedIcon] = useState<string>('Activity');
   const [isIconPickerOpen, setIsIconPickerOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
 
   const handleAddCategory = () => {
     if (newCategoryName.trim()) {
       // Check for duplicates
-      if (categories.some(c => c.name.toLowerCase() === newCategoryName.trim().toLowerCase())) {
-        alert("Category already exists!");
+      const existing = categories.find(c => c.name.toLowerCase() === newCategoryName.trim().toLowerCase());
+      if (existing) {
+        alert(existing.archived ? "Category is archived. Restore it below instead." : "Category already exists!");
         return;
       }
 
@@ -52,10 +83,58 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const startRename = (cat: CategoryItem) => {
+    setRenamingId(cat.id);
+    setRenameValue(cat.name);
+  };
+
+  const handleRenameCategory = () => {
+    const name = renameValue.trim();
+    const target = categories.find(c => c.id === renamingId);
+    if (!target || !name || name === target.name) {
+      setRenamingId(null);
+      return;
+    }
+
+    if (categories.some(c => c.id !== target.id && c.name.toLowerCase() === name.toLowerCase())) {
+      alert("Category already exists!");
+      return;
+    }
+
+    // Sessions reference the id, so history follows the new name.
+    // Pin the current color so charts don't reshuffle with the name hash.
+    onUpdateCategories(categories.map(c => c.id === target.id
+      ? { ...c, name, color: c.color || getColor(c.name) }
+      : c));
+    setRenamingId(null);
+  };
+
+  const toggleConcurrent = (id: string) => {
+    onUpdateCategories(categories.map(c => c.id === id ? { ...c, concurrent: !c.concurrent } : c));
+  };
+
+  const setArchived = (id: string, archived: boolean) => {
+    onUpdateCategories(categories.map(c => c.id === id ? { ...c, archived } : c));
+  };
+
   const handleRemoveCategory = (idToRemove: string) => {
-    onUpdateCategories(categories.filter(c => c.id !== idToRemove));
+    if (window.confirm('Delete this activity permanently? Its history will lose its icon and color.')) {
+      onUpdateCategories(categories.filter(c => c.id !== idToRemove));
+    }
   };
 
+  const handleMergeCategory = (fromId: string, intoId: string) => {
+    const from = categories.find(c => c.id === fromId);
+    const into = categories.find(c => c.id === intoId);
+    if (!from || !into) return;
+    if (window.confirm(`Move all "${from.name}" sessions to "${into.name}" and delete "${from.name}"?`)) {
+      onMergeCategory(fromId, intoId);
+    }
+  };
+
+  const activeCategories = categories.filter(c => !c.archived);
+  const archivedCategories = categories.filter(c => c.archived);
+
   const SelectedIconComp = (LucideIcons as any)[selectedIcon] || LucideIcons.Activity;
 
   return (
@@ -110,26 +189,142 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 </div>
               </section>
 
+              {/* Tracking */}
+              <section>
+                <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-3">Tracking</h3>
+                <label className="flex items-center justify-between p-3 bg-background rounded-xl border border-border/50 cursor-pointer">
+                  <div>
+                    <p className="text-sm text-textMain font-medium">Parallel tracking</p>
+                    <p className="text-[10px] text-textMuted mt-0.5">
+                      Let every activity run alongside others. Otherwise only activities marked <Layers size={10} className="inline" /> do.
+                    </p>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={concurrentMode}
+                    onChange={(e) => onToggleConcurrentMode(e.target.checked)}
+                    className="accent-current shrink-0 ml-3"
+                  />
+                </label>
+                <label className="flex items-center justify-between p-3 mt-2 bg-background rounded-xl border border-border/50">
+                  <div>
+                    <p className="text-sm text-textMain font-medium">Day starts at</p>
+                    <p className="text-[10px] text-textMuted mt-0.5">
+                      Time before this counts towards the previous day.
+                    </p>
+                  </div>
+                  <select
+                    value={dayStartHour}
+                    onChange={(e) => onChangeDayStartHour(Number(e.target.value))}
+                    className="bg-surface border border-border rounded-lg px-2 py-1 text-sm text-textMain focus:outline-none shrink-0 ml-3"
+                  >
+                    {Array.from({ length: 13 }, (_, hour) => (
+                      <option key={hour} value={hour}>{hour === 0 ? 'Midnight' : `${String(hour).padStart(2, '0')}:00`}</option>
+                    ))}
+                  </select>
+                </label>
+              </section>
+
+              {/* Sync */}
+              <section>
+                <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-3">Storage</h3>
+                <div className="bg-background rounded-xl p-1 flex gap-1 border border-border">
+                  <button
+                    onClick={() => onChangeBackend('local')}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${backendKind === 'local'
+                      ? 'bg-surface text-textMain shadow-sm'
+                      : 'text-textMuted hover:text-textMain'
+                      }`}
+                  >
+                    <HardDrive size={16} /> This Device
+                  </button>
+                  <button
+                    onClick={() => onChangeBackend('supabase')}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${backendKind === 'supabase'
+                      ? 'bg-surface text-textMain shadow-sm'
+                      : 'text-textMuted hover:text-textMain'
+                      }`}
+                  >
+                    <Cloud size={16} /> Cloud Sync
+                  </button>
+                </div>
+                {backendKind === 'supabase' && userEmail && (
+                  <div className="flex items-center justify-between mt-2 px-1">
+                    <span className="text-xs text-textMuted truncate">Signed in as {userEmail}</span>
+                    <button
+                      onClick={onSignOut}
+                      className="text-xs text-textMuted hover:text-textMain flex items-center gap-1 transition-colors"
+                    >
+                      <LogOut size={12} /> Sign out
+                    </button>
+                  </div>
+                )}
+              </section>
+
               {/* Categories */}
               <section>
                 <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-3">Activities</h3>
                 <div className="space-y-2">
-                  {categories.map(cat => {
+                  {activeCategories.map(cat => {
                     const CatIcon = (LucideIcons as any)[cat.icon] || LucideIcons.Activity;
                     return (
                       <div key={cat.id} className="flex items-center justify-between p-3 bg-background rounded-xl border border-border/50 group">
-                        <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-3 min-w-0 flex-1">
                           <div className="p-2 bg-surfaceHighlight rounded-lg text-textMain">
                             <CatIcon size={18} />
                           </div>
-                          <span className="text-sm text-textMain font-medium">{cat.name}</span>
+                          {renamingId === cat.id ? (
+                            <input
+                              type="text"
+                              value={renameValue}
+                              autoFocus
+                              onChange={(e) => setRenameValue(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRenameCategory();
+                                if (e.key === 'Escape') setRenamingId(null);
+                              }}
+                              className="flex-1 min-w-0 bg-surface border border-border rounded-lg px-2 py-1 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                            />
+                          ) : (
+                            <span className="text-sm text-textMain font-medium truncate">{cat.name}</span>
+                          )}
+                        </div>
+                        <div className="flex items-center">
+                          {renamingId === cat.id ? (
+                            <button
+                              onClick={handleRenameCategory}
+                              className="text-textMuted hover:text-textMain p-2 rounded-md transition-colors hover:bg-surfaceHighlight"
+                              aria-label="Save name"
+                            >
+                              <Check size={16} />
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => startRename(cat)}
+                              className="text-textMuted hover:text-textMain p-2 rounded-md transition-colors hover:bg-surfaceHighlight"
+                              aria-label="Rename activity"
+                            >
+                              <Edit2 size={16} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => toggleConcurrent(cat.id)}
+                            disabled={concurrentMode}
+                            className={`p-2 rounded-md transition-colors hover:bg-surfaceHighlight disabled:opacity-40 disabled:hover:bg-transparent ${cat.concurrent || concurrentMode ? 'text-textMain' : 'text-textMuted/40 hover:text-textMain'}`}
+                            aria-label={cat.concurrent ? 'Stop running alongside others' : 'Run alongside others'}
+                            aria-pressed={!!cat.concurrent}
+                            title="Runs alongside other activities"
+                          >
+                            <Layers size={16} />
+                          </button>
+                          <button
+                            onClick={() => setArchived(cat.id, true)}
+                            className="text-textMuted hover:text-textMain p-2 rounded-md transition-colors hover:bg-surfaceHighlight"
+                            aria-label="Archive activity"
+                          >
+                            <Archive size={16} />
+                          </button>
                         </div>
-                        <button
-                          onClick={() => handleRemoveCategory(cat.id)}
-                          className="text-textMuted hover:text-danger dark:hover:text-red-400 p-2 rounded-md transition-colors hover:bg-danger/10"
-                        >
-                          <Trash2 size={16} />
-                        </button>
                       </div>
                     );
                   })}
@@ -195,6 +390,56 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     </AnimatePresence>
                   </div>
 
+                  {/* Archived */}
+                  {archivedCategories.length > 0 && (
+                    <div className="pt-4 space-y-2">
+                      <h4 className="text-[10px] font-semibold text-textMuted uppercase tracking-wider px-1">Archived</h4>
+                      {archivedCategories.map(cat => {
+                        const CatIcon = (LucideIcons as any)[cat.icon] || LucideIcons.Activity;
+                        return (
+                          <div key={cat.id} className="p-3 bg-background/50 rounded-xl border border-border/50 border-dashed space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-3 min-w-0 opacity-60">
+                                <div className="p-2 bg-surfaceHighlight rounded-lg text-textMain">
+                                  <CatIcon size={18} />
+                                </div>
+                                <span className="text-sm text-textMain font-medium truncate">{cat.name}</span>
+                              </div>
+                              <div className="flex items-center">
+                                <button
+                                  onClick={() => setArchived(cat.id, false)}
+                                  className="text-textMuted hover:text-textMain p-2 rounded-md transition-colors hover:bg-surfaceHighlight"
+                                  aria-label="Restore activity"
+                                >
+                                  <ArchiveRestore size={16} />
+                                </button>
+                                <button
+                                  onClick={() => handleRemoveCategory(cat.id)}
+                                  className="text-textMuted hover:text-danger dark:hover:text-red-400 p-2 rounded-md transition-colors hover:bg-danger/10"
+                                  aria-label="Delete activity"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            </div>
+                            {activeCategories.length > 0 && (
+                              <select
+                                value=""
+                                onChange={(e) => e.target.value && handleMergeCategory(cat.id, e.target.value)}
+                                className="w-full bg-surface border border-border rounded-lg px-3 py-1.5 text-xs text-textMuted focus:outline-none focus:border-textMain/50"
+                              >
+                                <option value="">Merge into…</option>
+                                {activeCategories.map(target => (
+                                  <option key={target.id} value={target.id}>{target.name}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
                 </div>
               </section>
 
@@ -203,16 +448,54 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 <h3 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-3">Data</h3>
                 <div className="space-y-3">
                   <button
-                    onClick={onExportCSV}
+                    onClick={onOpenExport}
                     className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-border text-textMain hover:bg-surfaceHighlight transition-colors text-sm font-medium"
                   >
-                    <Download size={16} /> Export to CSV
+                    <Download size={16} /> Export…
                   </button>
 
+                  <button
+                    onClick={onOpenImport}
+                    className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-border text-textMain hover:bg-surfaceHighlight transition-colors text-sm font-medium"
+                  >
+                    <Upload size={16} /> Import from CSV / JSON / .ics
+                  </button>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={onDownloadBackup}
+                      className="flex items-center justify-center gap-2 p-3 rounded-xl border border-border text-textMain hover:bg-surfaceHighlight transition-colors text-sm font-medium"
+                    >
+                      <Save size={16} /> Backup
+                    </button>
+                    <button
+                      onClick={onOpenRestore}
+                      className="flex items-center justify-center gap-2 p-3 rounded-xl border border-border text-textMain hover:bg-surfaceHighlight transition-colors text-sm font-medium"
+                    >
+                      <ArchiveRestore size={16} /> Restore
+                    </button>
+                  </div>
+
+                  {onRollbackMigration && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Restore your data as it was before the last app upgrade? Changes made since then will be lost.')) {
+                          onRollbackMigration();
+                        }
+                      }}
+                      className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-border text-textMuted hover:text-textMain hover:bg-surfaceHighlight transition-colors text-sm font-medium"
+                    >
+                      <History size={16} /> Restore Pre-Upgrade Data
+                    </button>
+                  )}
+
                   <div className="pt-2">
                     <button
                       onClick={() => {
                         if (window.confirm('Are you sure? This will delete all history and reset categories.')) {
+                          if (window.confirm('Download a backup before clearing? Choose Cancel to clear without one.')) {
+                            onDownloadBackup();
+                          }
                           onClearData();
                         }
                       }}
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Scissors } from 'lucide-react';
+import { format } from 'date-fns';
+import { Session, CategoryItem } from '../types';
+import { findCategory, getCategoryName } from '../utils';
+
+interface SplitSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: Session | null;
+  categories: CategoryItem[];
+  onSplit: (session: Session, at: string, category: CategoryItem | undefined) => void;
+}
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const SplitSessionModal: React.FC<SplitSessionModalProps> = ({ isOpen, onClose, session, categories, onSplit }) => {
+  const [splitAt, setSplitAt] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  useEffect(() => {
+    if (!session) return;
+    // Default to the middle of the session
+    const start = new Date(session.start_time).getTime();
+    const end = session.end_time ? new Date(session.end_time).getTime() : Date.now();
+    setSplitAt(format(new Date((start + end) / 2), INPUT_FORMAT));
+    setCategoryId(findCategory(session, categories)?.id ?? '');
+  }, [session]);
+
+  if (!session) return null;
+
+  const start = new Date(session.start_time);
+  const end = session.end_time ? new Date(session.end_time) : new Date();
+  const at = splitAt ? new Date(splitAt) : null;
+  const isValid = !!at && at > start && at < end;
+
+  const handleSplit = () => {
+    if (!at || !isValid) return;
+    onSplit(session, at.toISOString(), categories.find(c => c.id === categoryId));
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.95, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-surface border border-border rounded-2xl w-full max-w-sm overflow-hidden flex flex-col shadow-2xl"
+          >
+            <div className="p-5 border-b border-border flex justify-between items-center bg-surfaceHighlight/50">
+              <h2 className="text-lg font-semibold text-textMain flex items-center gap-2">
+                <Scissors size={18} /> Split Session
+              </h2>
+              <button onClick={onClose} className="text-textMuted hover:text-textMain transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-xs text-textMuted">
+                {getCategoryName(session, categories)} · {format(start, 'HH:mm')} → {session.end_time ? format(end, 'HH:mm') : 'Now'}
+              </p>
+
+              <div>
+                <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">Split At</label>
+                <input
+                  type="datetime-local"
+                  value={splitAt}
+                  onChange={(e) => setSplitAt(e.target.value)}
+                  min={format(start, INPUT_FORMAT)}
+                  max={format(end, INPUT_FORMAT)}
+                  className="w-full bg-background border border-border rounded-xl px-4 py-3 text-textMain focus:outline-none focus:border-textMain/50"
+                />
+                {!isValid && (
+                  <p className="text-[10px] text-danger mt-1">Pick a time between the start and end.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-textMuted uppercase tracking-wider mb-1.5">Second Part Activity</label>
+                <select
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-textMain focus:outline-none focus:border-textMain/50"
+                >
+                  {!findCategory(session, categories) && <option value="">{session.category}</option>}
+                  {categories.filter(c => !c.archived || c.id === categoryId).map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="pt-4">
+                <button
+                  onClick={handleSplit}
+                  disabled={!isValid}
+                  className="w-full bg-textMain text-surface p-3 rounded-xl font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Scissors size={18} /> Split
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SplitSessionModal;
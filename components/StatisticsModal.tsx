@@ -1,235 +1,294 @@
 import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, BarChart2, Calendar } from 'lucide-react';
-import { Session } from '../types';
+import { X, BarChart2, Calendar, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { Session, CategoryItem } from '../types';
 import {
-  startOfDay, endOfDay,
   startOfWeek, endOfWeek,
   startOfMonth, endOfMonth,
   startOfYear, endOfYear,
-  eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval,
-  format, isWithinInterval, subDays, subMonths
+  format, subDays, subMonths,
+  subWeeks, subYears, differenceInCalendarDays
 } from 'date-fns';
-import { PieChart, StackedBarChart, ChartDataPoint, StackedBarDataPoint } from './Charts';
-import { intervalToDuration } from 'date-fns';
+import { PieChart, StackedBarChart, CalendarHeatmap, HourGrid, ChartDataPoint, StackedBarDataPoint, HeatmapDataPoint } from './Charts';
+import { aggregate, timeOfDay, bucketSizeFor, Aggregate, BucketSize, HourDistribution, OverlapMode } from '../services/aggregationService';
 
-import { formatDuration } from '../utils';
+import { formatDuration, getCategoryKey, getCategoryColor, getColor, trackingDayOf, trackingDayBounds } from '../utils';
 
 
 interface StatisticsModalProps {
   isOpen: boolean;
   onClose: () => void;
   sessions: Session[];
+  categories: CategoryItem[];
+  dayStartHour: number;
+  onSelectDay: (day: Date) => void;
 }
 
-type TimeRange = 'day' | 'week' | 'month' | 'year';
-
-const COLORS = [
-  '#6366f1', // Indigo
-  '#ec4899', // Pink
-  '#10b981', // Emerald
-  '#f59e0b', // Amber
-  '#3b82f6', // Blue
-  '#8b5cf6', // Violet
-  '#f43f5e', // Rose
-  '#14b8a6', // Teal
-  '#f97316', // Orange
-];
-
-const getColor = (str: string) => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    hash = str.charCodeAt(i) + ((hash << 5) - hash);
+type TimeRange = 'day' | 'week' | 'month' | '3months' | '6months' | '9months' | 'year' | 'custom';
+type Breakdown = 'category' | 'tag';
+type CompareMode = 'off' | 'previous' | 'average';
+type TimeOfDayView = 'hour' | 'week';
+
+const UNTAGGED = '__untagged';
+const UNTRACKED = '__untracked';
+
+const MONTH_SPANS: Partial<Record<TimeRange, number>> = { '3months': 3, '6months': 6, '9months': 9 };
+// Periods the rolling average is taken over
+const AVERAGE_PERIODS = 4;
+const PERIOD_UNITS: Record<TimeRange, [string, string]> = {
+  day: ['day', 'days'],
+  week: ['week', 'weeks'],
+  month: ['month', 'months'],
+  '3months': ['3 months', '3-month periods'],
+  '6months': ['6 months', '6-month periods'],
+  '9months': ['9 months', '9-month periods'],
+  year: ['year', 'years'],
+  custom: ['period', 'periods']
+};
+
+interface Period {
+  first: Date; // Calendar days, inclusive
+  last: Date;
+  label: string;
+}
+
+// The period `offset` steps before the one containing `today`.
+// Multi-month ranges end with the current month.
+const periodFor = (range: TimeRange, offset: number, today: Date, custom: { from: string; to: string }): Period => {
+  switch (range) {
+    case 'day': {
+      const day = subDays(today, offset);
+      return { first: day, last: day, label: format(day, 'MMMM d, yyyy') };
+    }
+    case 'week': {
+      const first = startOfWeek(subWeeks(today, offset), { weekStartsOn: 1 }); // Monday start
+      const last = endOfWeek(first, { weekStartsOn: 1 });
+      const label = offset === 0 ? 'This Week' : offset === 1 ? 'Last Week' : `${format(first, 'MMM d')} – ${format(last, 'MMM d, yyyy')}`;
+      return { first, last, label };
+    }
+    case 'month': {
+      const month = subMonths(today, offset);
+      return { first: startOfMonth(month), last: endOfMonth(month), label: format(month, 'MMMM yyyy') };
+    }
+    case 'year': {
+      const year = subYears(today, offset);
+      return { first: startOfYear(year), last: endOfYear(year), label: format(year, 'yyyy') };
+    }
+    case 'custom': {
+      const from = custom.from ? new Date(`${custom.from}T00:00`) : today;
+      const to = custom.to ? new Date(`${custom.to}T00:00`) : from;
+      const [first, last] = from <= to ? [from, to] : [to, from];
+      return { first, last, label: `${format(first, 'MMM d, yyyy')} – ${format(last, 'MMM d, yyyy')}` };
+    }
+    default: {
+      const months = MONTH_SPANS[range] ?? 1;
+      const last = subMonths(today, offset * months);
+      const first = startOfMonth(subMonths(last, months - 1));
+      return { first, last: endOfMonth(last), label: `${format(first, 'MMM yyyy')} – ${format(last, 'MMM yyyy')}` };
+    }
   }
-  const index = Math.abs(hash % COLORS.length);
-  return COLORS[index];
 };
 
-const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sessions }) => {
+const WEEKDAY_LABELS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+const bucketLabel = (start: Date, size: BucketSize, days: number) => {
+  switch (size) {
+    case 'day': return format(start, days <= 7 ? 'EEE' : 'd');
+    case 'week': return `W${format(start, 'I')}`;
+    default: return format(start, days > 400 ? 'MMM yy' : 'MMM');
+  }
+};
+
+const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sessions, categories, dayStartHour, onSelectDay }) => {
   const [range, setRange] = useState<TimeRange>('day');
+  const [offset, setOffset] = useState(0); // Periods back from the current one
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string>('');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [breakdown, setBreakdown] = useState<Breakdown>('category');
+  const [overlapMode, setOverlapMode] = useState<OverlapMode>('count');
+  const [showUntracked, setShowUntracked] = useState(true);
+  const [compare, setCompare] = useState<CompareMode>('off');
+  const [timeOfDayView, setTimeOfDayView] = useState<TimeOfDayView>('hour');
+
+  const allTags = useMemo(
+    () => Array.from(new Set(sessions.flatMap(s => s.tags ?? []))).sort(),
+    [sessions]
+  );
 
   // Filter Data
-  const { filteredSessions, periodLabel, periodStart, periodEnd } = useMemo(() => {
+  const { current, comparisons, distribution, periodLabel, bucketSize }: {
+    current: Aggregate;
+    comparisons: Aggregate[];
+    distribution: HourDistribution;
+    periodLabel: string;
+    bucketSize: BucketSize | null;
+  } = useMemo(() => {
     const now = new Date();
-    let start: Date, end: Date;
-    let label = '';
-
-    switch (range) {
-      case 'day':
-        start = startOfDay(now);
-        end = endOfDay(now);
-        label = format(now, 'MMMM d, yyyy');
-        break;
-      case 'week':
-        start = startOfWeek(now, { weekStartsOn: 1 }); // Monday start
-        end = endOfWeek(now, { weekStartsOn: 1 });
-        label = 'This Week';
-        break;
-      case 'month':
-        start = startOfMonth(now);
-        end = endOfMonth(now);
-        label = format(now, 'MMMM yyyy');
-        break;
-      case 'year':
-        start = startOfYear(now);
-        end = endOfYear(now);
-        label = format(now, 'yyyy');
-        break;
-    }
-
-    const filtered = sessions.filter(s => {
-      const sStart = new Date(s.start_time);
-      const sEnd = s.end_time ? new Date(s.end_time) : new Date();
-      // Check for overlap
-      return sStart < end && sEnd > start;
+    const today = trackingDayOf(now, dayStartHour);
+    const custom = { from: customFrom, to: customTo };
+    const period = periodFor(range, offset, today, custom);
+
+    // The periods before this one; a custom range steps back by its own length
+    const earlier = (steps: number): Period => {
+      if (range !== 'custom') return periodFor(range, offset + steps, today, custom);
+      const days = (differenceInCalendarDays(period.last, period.first) + 1) * steps;
+      return { ...period, first: subDays(period.first, days), last: subDays(period.last, days) };
+    };
+    const compared = compare === 'off' ? [] : Array.from(
+      { length: compare === 'previous' ? 1 : AVERAGE_PERIODS },
+      (_, i) => earlier(i + 1)
+    );
+
+    // Calendar days become moments at the configured start of day
+    const from = trackingDayBounds(period.first, dayStartHour).start;
+    const to = trackingDayBounds(period.last, dayStartHour).end;
+    const bucket = bucketSizeFor(from, to, dayStartHour);
+    // A session with several tags has its time shared equally between them, so totals still add up
+    const keysFor = (s: Session): [string, number][] => {
+      if (breakdown === 'category') return [[getCategoryKey(s, categories), 1]];
+      const tags = s.tags?.length ? s.tags : [UNTAGGED];
+      return tags.map(tag => [tag, 1 / tags.length]);
+    };
+    const filter = categoryFilter || tagFilter
+      ? (s: Session) =>
+        (!categoryFilter || getCategoryKey(s, categories) === categoryFilter) &&
+        (!tagFilter || (s.tags ?? []).includes(tagFilter))
+      : null;
+    const aggregateFor = (p: Period) => aggregate(sessions, {
+      from: trackingDayBounds(p.first, dayStartHour).start,
+      to: trackingDayBounds(p.last, dayStartHour).end,
+      bucket,
+      dayStartHour,
+      overlapMode,
+      keysFor,
+      filter,
+      now
     });
 
-    return { filteredSessions: filtered, periodLabel: label, periodStart: start, periodEnd: end };
-  }, [sessions, range]);
+    return {
+      current: aggregateFor(period),
+      comparisons: compared.map(aggregateFor),
+      distribution: timeOfDay(sessions, { from, to, dayStartHour, overlapMode, keysFor, filter, now }),
+      periodLabel: period.label,
+      bucketSize: bucket
+    };
+  }, [sessions, categories, range, offset, customFrom, customTo, categoryFilter, tagFilter, breakdown, overlapMode, compare, dayStartHour]);
+
+  const { hasOverlap } = current;
 
   // Process Data for Charts
   const chartData = useMemo(() => {
-    // 1. Pie Data (Aggregate)
-    const catMap: Record<string, number> = {};
-    const { start: rangeStart, end: rangeEnd } = { start: periodStart, end: periodEnd };
+    // Keys are category ids (or the stored name for sessions without a category)
+    // or tags when broken down by tag
+    const byKey = new Map<string, CategoryItem>(categories.map(c => [c.id, c]));
+    const labelFor = (key: string) => key === UNTRACKED ? 'Untracked' : breakdown === 'tag'
+      ? (key === UNTAGGED ? 'Untagged' : `#${key}`)
+      : byKey.get(key)?.name ?? key;
+    const colorFor = (key: string) => key === UNTRACKED ? '#d4d4d8' : breakdown === 'tag'
+      ? (key === UNTAGGED ? '#a1a1aa' : getColor(key))
+      : getCategoryColor(byKey.get(key), key);
+    // Untracked time joins the totals as its own key when shown
+    const withUntracked = (bucket: Pick<Aggregate, 'totals' | 'untracked'>): Record<string, number> =>
+      showUntracked && bucket.untracked > 0 ? { ...bucket.totals, [UNTRACKED]: bucket.untracked } : bucket.totals;
+    const sum = (totals: Record<string, number>) => Object.values(totals).reduce((acc, v) => acc + v, 0);
 
-    filteredSessions.forEach(s => {
-      const sStart = new Date(s.start_time);
-      let sEnd = s.end_time ? new Date(s.end_time) : new Date();
-
-      // Clamp to range
-      const effectiveStart = sStart < rangeStart ? rangeStart : sStart;
-      const effectiveEnd = sEnd > rangeEnd ? rangeEnd : sEnd;
-
-      if (effectiveStart < effectiveEnd) {
-        const minutes = (effectiveEnd.getTime() - effectiveStart.getTime()) / 60000;
-        catMap[s.category] = (catMap[s.category] || 0) + minutes;
-      }
-    });
+    // 1. Pie Data (Aggregate)
+    // Untracked only shows alongside tracked time, so an empty period still reads as empty
+    const catMap = current.tracked > 0 ? withUntracked(current) : current.totals;
 
     const pieData: ChartDataPoint[] = Object.entries(catMap)
-      .map(([label, value]) => ({
-        label,
+      .map(([key, value]) => ({
+        label: labelFor(key),
         value,
-        color: getColor(label)
+        color: colorFor(key)
       }))
       .sort((a, b) => b.value - a.value);
 
     // 2. Bar Data (Timeline)
-    let barData: StackedBarDataPoint[] = [];
-    const now = new Date();
-
-    if (range === 'week') {
-      // Daily breakdown (Mon-Sun)
-      const days = eachDayOfInterval({ start: periodStart, end: periodEnd });
-      barData = days.map(day => {
-        const dayStart = startOfDay(day);
-        const dayEnd = endOfDay(day);
-
-        // Find sessions in this day
-        // Note: Simple overlap logic. If session spans days, we roughly credit start time for now or strict split?
-        // Simple implementation: Credit based on start time day for simplicity, 
-        // to strictly split requires complex interval math. Given simple app, start time attribution is usually acceptable or splitting.
-        // Let's do splitting for accuracy as requested "tracked per day".
-
-        const segmentsMap: Record<string, number> = {};
-        let total = 0;
-
-        filteredSessions.forEach(s => {
-          const sStart = new Date(s.start_time);
-          let sEnd = s.end_time ? new Date(s.end_time) : new Date();
-
-          // Check overlap
-          const overlapStart = sStart < dayStart ? dayStart : sStart;
-          const overlapEnd = sEnd > dayEnd ? dayEnd : sEnd;
-
-          if (overlapStart < overlapEnd) {
-            const mins = Math.round((overlapEnd.getTime() - overlapStart.getTime()) / 60000);
-            segmentsMap[s.category] = (segmentsMap[s.category] || 0) + mins;
-            total += mins;
-          }
-        });
-
-        return {
-          label: format(day, 'EEE'), // Mon, Tue...
-          total,
-          segments: Object.entries(segmentsMap).map(([key, value]) => ({
-            key, value, color: getColor(key), label: key
-          }))
-        };
-      });
-    } else if (range === 'month') {
-      // Weekly breakdown
-      const weeks = eachWeekOfInterval({ start: periodStart, end: periodEnd }, { weekStartsOn: 1 });
-      barData = weeks.map((weekStart, idx) => {
-        const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-        const segmentsMap: Record<string, number> = {};
-        let total = 0;
-
-        filteredSessions.forEach(s => {
-          const sStart = new Date(s.start_time);
-          let sEnd = s.end_time ? new Date(s.end_time) : new Date();
-
-          const overlapStart = sStart < weekStart ? weekStart : sStart;
-          const overlapEnd = sEnd > weekEnd ? weekEnd : sEnd;
-
-          if (overlapStart < overlapEnd) {
-            const mins = Math.round((overlapEnd.getTime() - overlapStart.getTime()) / 60000);
-            segmentsMap[s.category] = (segmentsMap[s.category] || 0) + mins;
-            total += mins;
-          }
-        });
-
-        return {
-          label: `W${idx + 1}`,
-          total,
-          segments: Object.entries(segmentsMap).map(([key, value]) => ({
-            key, value, color: getColor(key), label: key
-          }))
-        }
-      });
+    // Compared periods line up bucket by bucket; the ghost is their average
+    const days = differenceInCalendarDays(current.end, current.start);
+    const barData: StackedBarDataPoint[] = current.buckets.map((bucket, index) => {
+      const segmentsMap = withUntracked(bucket);
+      return {
+        label: bucketLabel(bucket.start, bucketSize ?? 'day', days),
+        total: sum(segmentsMap),
+        ghost: comparisons.length > 0
+          ? comparisons.reduce((acc, c) => acc + (c.buckets[index] ? sum(withUntracked(c.buckets[index])) : 0), 0) / comparisons.length
+          : undefined,
+        segments: Object.entries(segmentsMap).map(([key, value]) => ({
+          key, value, color: colorFor(key), label: labelFor(key)
+        }))
+      };
+    });
 
-    } else if (range === 'year') {
-      // Monthly breakdown
-      const months = eachMonthOfInterval({ start: startOfYear(now), end: endOfYear(now) });
-      barData = months.map(month => {
-        const monthStart = startOfMonth(month);
-        const monthEnd = endOfMonth(month);
-        const segmentsMap: Record<string, number> = {};
-        let total = 0;
-
-        filteredSessions.forEach(s => {
-          const sStart = new Date(s.start_time);
-          let sEnd = s.end_time ? new Date(s.end_time) : new Date();
-
-          const overlapStart = sStart < monthStart ? monthStart : sStart;
-          const overlapEnd = sEnd > monthEnd ? monthEnd : sEnd;
-
-          if (overlapStart < overlapEnd) {
-            const mins = Math.round((overlapEnd.getTime() - overlapStart.getTime()) / 60000);
-            segmentsMap[s.category] = (segmentsMap[s.category] || 0) + mins;
-            total += mins;
-          }
-        });
-
-        return {
-          label: format(month, 'MMM'),
-          total,
-          segments: Object.entries(segmentsMap).map(([key, value]) => ({
-            key, value, color: getColor(key), label: key
-          }))
-        }
+    // 3. Change per key against the compared periods (untracked time left out)
+    const baseline: Record<string, number> = {};
+    comparisons.forEach(c => {
+      Object.entries(c.totals).forEach(([key, value]) => {
+        baseline[key] = (baseline[key] || 0) + value / comparisons.length;
       });
-    }
+    });
+    const deltas = comparisons.length === 0 ? [] : Array.from(new Set([...Object.keys(current.totals), ...Object.keys(baseline)]))
+      .map(key => ({ key, label: labelFor(key), color: colorFor(key), delta: (current.totals[key] || 0) - (baseline[key] || 0) }))
+      .filter(d => Math.abs(d.delta) >= 1)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    // 4. Time of day, hours ordered from the start of day
+    const hourData: StackedBarDataPoint[] = Array.from({ length: 24 }, (_, i) => (i + dayStartHour) % 24).map((hour, i) => {
+      const totals = distribution.hours[hour];
+      return {
+        label: i % 6 === 0 ? String(hour).padStart(2, '0') : '',
+        total: sum(totals),
+        segments: Object.entries(totals).map(([key, value]) => ({
+          key, value, color: colorFor(key), label: labelFor(key)
+        }))
+      };
+    });
 
-    return { pieData, barData };
-  }, [filteredSessions, range, periodStart, periodEnd]);
+    return { pieData, barData, deltas, hourData };
+  }, [current, comparisons, distribution, bucketSize, showUntracked, categories, breakdown, dayStartHour]);
+
+  // The last year of days, whole weeks, for the heatmap; follows the activity/tag filter but not the period
+  const heatmapData: HeatmapDataPoint[] = useMemo(() => {
+    if (!isOpen) return [];
+    const today = trackingDayOf(new Date(), dayStartHour);
+    const from = trackingDayBounds(startOfWeek(subDays(today, 364), { weekStartsOn: 1 }), dayStartHour).start;
+    const to = trackingDayBounds(today, dayStartHour).end;
+    const year = aggregate(sessions, {
+      from,
+      to,
+      bucket: 'day',
+      dayStartHour,
+      keysFor: () => [['tracked', 1]],
+      filter: (s: Session) =>
+        (!categoryFilter || getCategoryKey(s, categories) === categoryFilter) &&
+        (!tagFilter || (s.tags ?? []).includes(tagFilter))
+    });
+    return year.buckets.map(day => ({ date: trackingDayOf(day.start, dayStartHour), value: day.tracked }));
+  }, [isOpen, sessions, categories, categoryFilter, tagFilter, dayStartHour]);
+  const heatmapColor = categoryFilter
+    ? getCategoryColor(categories.find(c => c.id === categoryFilter), categoryFilter)
+    : '#22c55e';
+
+  const unit = PERIOD_UNITS[range];
+  const compareLabel = compare === 'average'
+    ? `vs avg of last ${AVERAGE_PERIODS} ${unit[1]}`
+    : range === 'day' && offset === 0
+      ? 'vs yesterday'
+      : `vs ${offset === 0 && ['week', 'month', 'year'].includes(range) ? 'last' : 'previous'} ${unit[0]}`;
+  const deltaByLabel = new Map<string, number>(chartData.deltas.map(d => [d.label, d.delta]));
 
   const tabs: { id: TimeRange; label: string }[] = [
     { id: 'day', label: 'Day' },
     { id: 'week', label: 'Week' },
     { id: 'month', label: 'Month' },
+    { id: '3months', label: '3M' },
+    { id: '6months', label: '6M' },
+    { id: '9months', label: '9M' },
     { id: 'year', label: 'Year' },
+    { id: 'custom', label: 'Custom' },
   ];
 
   return (
@@ -265,7 +324,10 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sess
               {tabs.map(tab => (
                 <button
                   key={tab.id}
-                  onClick={() => setRange(tab.id)}
+                  onClick={() => {
+                    setRange(tab.id);
+                    setOffset(0);
+                  }}
                   className={`flex-1 py-1.5 px-3 rounded-lg text-xs font-medium transition-colors whitespace-nowrap ${range === tab.id
                     ? 'bg-textMain text-surface'
                     : 'text-textMuted hover:bg-surfaceHighlight'
@@ -276,10 +338,127 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sess
               ))}
             </div>
 
+            {/* Filters */}
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+              <select
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value)}
+                className="flex-1 min-w-0 bg-background border border-border rounded-lg px-2 py-1.5 text-xs text-textMain focus:outline-none"
+                aria-label="Filter by activity"
+              >
+                <option value="">All activities</option>
+                {categories.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="flex-1 min-w-0 bg-background border border-border rounded-lg px-2 py-1.5 text-xs text-textMain focus:outline-none"
+                aria-label="Filter by tag"
+              >
+                <option value="">All tags</option>
+                {allTags.map(tag => (
+                  <option key={tag} value={tag}>#{tag}</option>
+                ))}
+              </select>
+              <div className="flex bg-background border border-border rounded-lg p-0.5 shrink-0">
+                {(['category', 'tag'] as Breakdown[]).map(b => (
+                  <button
+                    key={b}
+                    onClick={() => setBreakdown(b)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${breakdown === b
+                      ? 'bg-surface text-textMain shadow-sm'
+                      : 'text-textMuted hover:text-textMain'
+                      }`}
+                  >
+                    {b === 'category' ? 'Activity' : 'Tag'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="overflow-y-auto p-5 space-y-8 flex-1">
 
               <div className="text-center">
-                <p className="text-xs text-textMuted uppercase tracking-wider">{periodLabel}</p>
+                {range === 'custom' ? (
+                  <div className="flex items-center justify-center gap-2">
+                    <input
+                      type="date"
+                      value={customFrom}
+                      onChange={(e) => setCustomFrom(e.target.value)}
+                      className="bg-background border border-border rounded-lg px-2 py-1 text-xs text-textMain focus:outline-none"
+                      aria-label="From"
+                    />
+                    <span className="text-textMuted text-xs">–</span>
+                    <input
+                      type="date"
+                      value={customTo}
+                      onChange={(e) => setCustomTo(e.target.value)}
+                      className="bg-background border border-border rounded-lg px-2 py-1 text-xs text-textMain focus:outline-none"
+                      aria-label="To"
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center gap-3">
+                    <button
+                      onClick={() => setOffset(offset + 1)}
+                      className="text-textMuted hover:text-textMain p-1 rounded-md hover:bg-surfaceHighlight transition-colors"
+                      aria-label="Previous period"
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <p className="text-xs text-textMuted uppercase tracking-wider">{periodLabel}</p>
+                    <button
+                      onClick={() => setOffset(offset - 1)}
+                      disabled={offset === 0}
+                      className="text-textMuted hover:text-textMain p-1 rounded-md hover:bg-surfaceHighlight transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                      aria-label="Next period"
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+                {current.untracked > 0 && (
+                  <button
+                    onClick={() => setShowUntracked(!showUntracked)}
+                    className="mt-2 text-[10px] text-textMuted hover:text-textMain transition-colors"
+                  >
+                    {showUntracked ? 'Hide untracked time' : 'Show untracked time'}
+                  </button>
+                )}
+                {hasOverlap && (
+                  <div className="inline-flex items-center gap-2 mt-2 text-[10px] text-textMuted">
+                    Parallel time:
+                    {(['count', 'split'] as OverlapMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setOverlapMode(mode)}
+                        className={`px-2 py-0.5 rounded-md border transition-colors ${overlapMode === mode
+                          ? 'border-textMain/40 text-textMain'
+                          : 'border-transparent hover:text-textMain'
+                          }`}
+                      >
+                        {mode === 'count' ? 'Count each' : 'Split'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-center gap-2 mt-2 text-[10px] text-textMuted">
+                  Compare:
+                  {(['off', 'previous', 'average'] as CompareMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setCompare(mode)}
+                      className={`px-2 py-0.5 rounded-md border transition-colors ${compare === mode
+                        ? 'border-textMain/40 text-textMain'
+                        : 'border-transparent hover:text-textMain'
+                        }`}
+                    >
+                      {mode === 'off' ? 'Off' : mode === 'previous' ? 'Previous' : 'Average'}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               {/* Pie Chart Section */}
@@ -293,18 +472,44 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sess
 
                 {/* Legend */}
                 <div className="flex flex-wrap justify-center gap-3 mt-6">
-                  {chartData.pieData.map(d => (
-                    <div key={d.label} className="flex items-center gap-1.5 bg-surfaceHighlight/50 px-2 py-1 rounded-lg border border-border/50">
-                      <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: d.color }} />
-                      <span className="text-xs text-textMain font-medium">{d.label}</span>
-                      <span className="text-[10px] text-textMuted ml-1">{formatDuration(d.value)}</span>
-                    </div>
-                  ))}
+                  {chartData.pieData.map(d => {
+                    const delta = deltaByLabel.get(d.label);
+                    return (
+                      <div key={d.label} className="flex items-center gap-1.5 bg-surfaceHighlight/50 px-2 py-1 rounded-lg border border-border/50">
+                        <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: d.color }} />
+                        <span className="text-xs text-textMain font-medium">{d.label}</span>
+                        <span className="text-[10px] text-textMuted ml-1">{formatDuration(d.value)}</span>
+                        {delta !== undefined && (delta > 0
+                          ? <ArrowUp size={10} className="text-green-500" aria-label="Up" />
+                          : <ArrowDown size={10} className="text-danger" aria-label="Down" />)}
+                      </div>
+                    );
+                  })}
                 </div>
+
+                {compare !== 'off' && (
+                  <div className="w-full mt-6 space-y-1.5">
+                    <p className="text-[10px] text-textMuted uppercase tracking-wider text-center">Changes {compareLabel}</p>
+                    {chartData.deltas.length === 0 ? (
+                      <p className="text-xs text-textMuted italic text-center">No change.</p>
+                    ) : chartData.deltas.map(d => (
+                      <div key={d.key} className="flex items-center justify-between text-xs px-1">
+                        <span className="flex items-center gap-1.5 text-textMain min-w-0">
+                          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: d.color }} />
+                          <span className="truncate">{d.label}</span>
+                        </span>
+                        <span className={`flex items-center gap-1 font-mono shrink-0 ${d.delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-danger'}`}>
+                          {d.delta > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                          {d.delta > 0 ? '+' : '−'}{formatDuration(Math.abs(d.delta))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              {/* Bar Chart Section (Week/Month/Year only) */}
-              {range !== 'day' && (
+              {/* Bar Chart Section (multi-day periods only) */}
+              {chartData.barData.length > 0 && (
                 <div className="border-t border-border pt-6">
                   <h3 className="text-sm font-semibold text-textMain mb-6 text-center">Trend</h3>
                   <div className="px-2">
@@ -313,6 +518,54 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, sess
                 </div>
               )}
 
+              {/* Time of Day Section */}
+              {current.tracked > 0 && (
+                <div className="border-t border-border pt-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-sm font-semibold text-textMain">Time of Day</h3>
+                    <div className="flex bg-background border border-border rounded-lg p-0.5">
+                      {(['hour', 'week'] as TimeOfDayView[]).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setTimeOfDayView(view)}
+                          className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${timeOfDayView === view
+                            ? 'bg-surface text-textMain shadow-sm'
+                            : 'text-textMuted hover:text-textMain'
+                            }`}
+                        >
+                          {view === 'hour' ? 'Hours' : 'Week'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {timeOfDayView === 'hour' ? (
+                    <div className="px-2">
+                      <StackedBarChart data={chartData.hourData} height={140} valueFormatter={formatDuration} />
+                    </div>
+                  ) : (
+                    <HourGrid
+                      data={distribution.weekHours.map(row => Array.from({ length: 24 }, (_, i) => row[(i + dayStartHour) % 24]))}
+                      rowLabels={WEEKDAY_LABELS}
+                      columnLabels={Array.from({ length: 24 }, (_, i) => String((i + dayStartHour) % 24).padStart(2, '0'))}
+                      labelEvery={6}
+                      color={heatmapColor}
+                      valueFormatter={formatDuration}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Heatmap Section (always the last year) */}
+              <div className="border-t border-border pt-6">
+                <h3 className="text-sm font-semibold text-textMain mb-4 text-center">Past Year</h3>
+                <CalendarHeatmap
+                  data={heatmapData}
+                  color={heatmapColor}
+                  valueFormatter={formatDuration}
+                  onSelect={onSelectDay}
+                />
+              </div>
+
             </div>
           </motion.div>
         </motion.div>
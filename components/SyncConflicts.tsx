@@ -0,0 +1,58 @@
+import React from 'react';
+import { SyncConflict } from '../types';
+import { motion } from 'framer-motion';
+import { GitMerge } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => void;
+}
+
+const describe = (session: SyncConflict['local']) => {
+  const start = format(new Date(session.start_time), 'MMM d, HH:mm');
+  const end = session.end_time ? format(new Date(session.end_time), 'HH:mm') : 'Now';
+  return `${session.category} · ${start} → ${end}`;
+};
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onResolve }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-yellow-500/10 border border-yellow-500/40 rounded-lg p-4 space-y-3"
+    >
+      <div className="flex items-start gap-3">
+        <GitMerge className="text-yellow-500 shrink-0" size={20} />
+        <div>
+          <h4 className="text-yellow-600 dark:text-yellow-400 font-medium text-sm">Sync Conflicts</h4>
+          <p className="text-textMuted text-xs mt-1">
+            {conflicts.length} session(s) were changed on this device and elsewhere.
+            The newest edit was applied; pick the version to keep.
+          </p>
+        </div>
+      </div>
+
+      {conflicts.map(conflict => (
+        <div key={conflict.local.id} className="bg-surface border border-border rounded-lg p-3 space-y-2">
+          {(['local', 'remote'] as const).map(side => (
+            <button
+              key={side}
+              onClick={() => onResolve(conflict, side)}
+              className={`w-full text-left text-xs font-mono px-3 py-2 rounded-md border transition-colors hover:bg-surfaceHighlight ${conflict.kept === side ? 'border-textMain/40 text-textMain' : 'border-border text-textMuted'}`}
+            >
+              <span className="uppercase tracking-wider text-[10px] block mb-0.5">
+                {side === 'local' ? 'This device' : 'Cloud'}{conflict.kept === side && ' (applied)'}
+              </span>
+              {describe(conflict[side])}
+            </button>
+          ))}
+        </div>
+      ))}
+    </motion.div>
+  );
+};
+
+export default SyncConflicts;
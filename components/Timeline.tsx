@@ -1,24 +1,74 @@
 import React from 'react';
-import { Session } from '../types';
+import { Session, CategoryItem } from '../types';
 import { format } from 'date-fns';
-import { Trash2, Edit2 } from 'lucide-react';
+import { Trash2, Edit2, Scissors, Link2, Plus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatDuration } from '../utils';
+import * as LucideIcons from 'lucide-react';
+import { formatDuration, findCategory, getCategoryColor, getCategoryKey, isPaused, pausedMsBetween, trackedMs, spanOf, findGaps, runningSpans } from '../utils';
+import { DayDial, DayArcDataPoint } from './Charts';
 
 interface TimelineProps {
   sessions: Session[];
+  categories: CategoryItem[];
   onUpdateSession: (session: Session) => void;
   onDeleteSession: (id: string) => void;
   onEditSession: (session: Session) => void;
+  onSplitSession: (session: Session) => void;
+  onJoinSessions: (newer: Session, older: Session) => void;
+  onFillGap: (start: Date, end: Date) => void;
+  dayStart: Date; // Bounds of the day being shown; sessions may run past them
+  dayEnd: Date;
 }
 
-const Timeline: React.FC<TimelineProps> = ({ sessions, onDeleteSession, onEditSession }) => {
+// Shorter breaks (stopping one tracker and starting the next) aren't worth a row
+const MIN_GAP_MS = 60000;
+
+const Timeline: React.FC<TimelineProps> = ({ sessions, categories, onDeleteSession, onEditSession, onSplitSession, onJoinSessions, onFillGap, dayStart, dayEnd }) => {
   const sortedSessions = [...sessions].sort((a, b) =>
     new Date(b.start_time).getTime() - new Date(a.start_time).getTime()
   );
 
+  // Untracked stretches between the first and last session, keyed by the start of the session that ends them
+  const spans = sessions.map(s => spanOf(s));
+  const gapsByEnd = new Map(
+    findGaps(spans, Math.min(...spans.map(s => s.start)), Math.max(...spans.map(s => s.end)))
+      .filter(gap => gap.end - gap.start >= MIN_GAP_MS)
+      .map(gap => [gap.end, gap])
+  );
+
+  // Running stretches clipped to the day, for the dial; pauses show as gaps
+  const arcs: DayArcDataPoint[] = sessions.flatMap(session => {
+    const category = findCategory(session, categories);
+    const label = category?.name ?? session.category;
+    return runningSpans(session).map((span, i) => ({
+      key: `${session.id}-${i}`,
+      id: session.id,
+      label,
+      start: new Date(Math.max(span.start, dayStart.getTime())),
+      end: new Date(Math.min(span.end, dayEnd.getTime())),
+      color: getCategoryColor(category, label)
+    })).filter(arc => arc.start < arc.end);
+  });
+  const dayMinutes = Math.round(sessions.reduce((sum, s) => sum + trackedMs(s, dayStart.getTime(), dayEnd.getTime()), 0) / 60000);
+
   return (
     <div className="w-full">
+      {sessions.length > 0 && (
+        <div className="flex justify-center mb-6">
+          <DayDial
+            data={arcs}
+            dayStart={dayStart}
+            dayEnd={dayEnd}
+            now={new Date()}
+            centerLabel="Tracked"
+            centerValue={formatDuration(dayMinutes)}
+            onSelect={(id) => {
+              const session = sessions.find(s => s.id === id);
+              if (session) onEditSession(session);
+            }}
+          />
+        </div>
+      )}
       <h2 className="text-xs font-semibold text-textMuted uppercase tracking-wider mb-4 px-1">
         Activity Log
       </h2>
@@ -33,14 +83,46 @@ const Timeline: React.FC<TimelineProps> = ({ sessions, onDeleteSession, onEditSe
               No activities for today.
             </motion.p>
           ) : (
-            sortedSessions.map((session) => (
-              <TimelineItem
-                key={session.id}
-                session={session}
-                onDelete={onDeleteSession}
-                onEdit={onEditSession}
-              />
-            ))
+            sortedSessions.flatMap((session, index) => {
+              const older = sortedSessions[index + 1];
+              // Neighbours of the same activity can be joined back together, as long as they don't overlap
+              const canJoin = !!older && !older.is_active &&
+                getCategoryKey(older, categories) === getCategoryKey(session, categories) &&
+                new Date(older.end_time!) <= new Date(session.start_time);
+              const gap = gapsByEnd.get(new Date(session.start_time).getTime());
+
+              return [
+                <TimelineItem
+                  key={session.id}
+                  session={session}
+                  category={findCategory(session, categories)}
+                  onDelete={onDeleteSession}
+                  onEdit={onEditSession}
+                  onSplit={onSplitSession}
+                  dayStart={dayStart}
+                  dayEnd={dayEnd}
+                />,
+                ...(gap ? [
+                  <GapItem
+                    key={`gap-${gap.start}`}
+                    start={new Date(gap.start)}
+                    end={new Date(gap.end)}
+                    onFill={onFillGap}
+                  />
+                ] : []),
+                ...(canJoin ? [
+                  <motion.div key={`join-${session.id}-${older.id}`} layout className="flex justify-center -my-1.5">
+                    <button
+                      onClick={() => onJoinSessions(session, older)}
+                      className="text-[10px] text-textMuted hover:text-textMain flex items-center gap-1 px-2 py-0.5 rounded-md hover:bg-surfaceHighlight transition-colors"
+                      aria-label="Merge with previous session"
+                    >
+                      <Link2 size={12} /> Merge
+                    </button>
+                  </motion.div>
+                ] : [])
+              ];
+            })
           )}
         </AnimatePresence>
       </div>
@@ -48,17 +130,59 @@ const Timeline: React.FC<TimelineProps> = ({ sessions, onDeleteSession, onEditSe
   );
 };
 
+const GapItem: React.FC<{
+  start: Date;
+  end: Date;
+  onFill: (start: Date, end: Date) => void;
+}> = ({ start, end, onFill }) => (
+  <motion.button
+    layout
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0, transition: { duration: 0.2 } }}
+    onClick={() => onFill(start, end)}
+    className="w-full border border-dashed border-border rounded-xl px-4 py-2 flex items-center justify-between text-xs text-textMuted hover:text-textMain hover:border-textMuted transition-colors"
+    aria-label="Fill untracked time"
+  >
+    <span className="flex items-center gap-2 font-mono">
+      <Plus size={14} />
+      <span>Untracked</span>
+      <span className="text-textMuted/60">{format(start, 'HH:mm')} → {format(end, 'HH:mm')}</span>
+    </span>
+    <span className="font-mono">{formatDuration(Math.round((end.getTime() - start.getTime()) / 60000))}</span>
+  </motion.button>
+);
+
 const TimelineItem: React.FC<{
   session: Session;
+  category?: CategoryItem;
   onDelete: (id: string) => void;
   onEdit: (session: Session) => void;
-}> = ({ session, onDelete, onEdit }) => {
+  onSplit: (session: Session) => void;
+  dayStart: Date;
+  dayEnd: Date;
+}> = ({ session, category, onDelete, onEdit, onSplit, dayStart, dayEnd }) => {
+  // Archived categories still resolve here, so history keeps its icon and color
+  const categoryName = category?.name ?? session.category;
+  const Icon = (category && (LucideIcons as any)[category.icon]) || LucideIcons.Activity;
+
   const start = new Date(session.start_time);
   const end = session.end_time ? new Date(session.end_time) : null;
 
-  const duration = end
-    ? Math.round((end.getTime() - start.getTime()) / 60000)
-    : 0;
+  // Pauses don't count towards the duration
+  const duration = end ? Math.round(trackedMs(session) / 60000) : 0;
+  const pausedMinutes = end ? Math.round(pausedMsBetween(session, start.getTime(), end.getTime()) / 60000) : 0;
+  const paused = isPaused(session);
+
+  // Sessions crossing into another day only credit the part inside this one
+  const startsEarlier = start < dayStart;
+  const endsLater = !!end && end > dayEnd;
+  const crossesDay = startsEarlier || endsLater;
+  const dayDuration = end ? Math.round(trackedMs(session, dayStart.getTime(), dayEnd.getTime()) / 60000) : 0;
+  const spanMs = (end ?? new Date()).getTime() - start.getTime();
+  const clipStart = Math.max(start.getTime(), dayStart.getTime());
+  const clipEnd = Math.min((end ?? new Date()).getTime(), dayEnd.getTime());
+  const timeFormat = (date: Date, outside: boolean) => format(date, outside ? 'EEE HH:mm' : 'HH:mm');
 
   return (
     <motion.div
@@ -72,24 +196,66 @@ const TimelineItem: React.FC<{
         <div className={`w-2 h-2 rounded-full shrink-0 ${session.is_active ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)] animate-pulse' : 'bg-textMuted/50'}`} />
 
         <div className="min-w-0">
-          <h3 className="text-textMain font-medium text-sm truncate">{session.category}</h3>
+          <h3 className="text-textMain font-medium text-sm truncate flex items-center gap-1.5">
+            <Icon size={14} className="shrink-0" style={{ color: getCategoryColor(category, categoryName) }} />
+            <span className="truncate">{categoryName}</span>
+          </h3>
           <div className="text-xs text-textMuted font-mono mt-0.5 flex items-center gap-2">
-            <span>{format(start, 'HH:mm')}</span>
+            <span className={startsEarlier ? 'text-textMuted/50' : ''}>{timeFormat(start, startsEarlier)}</span>
             <span className="text-textMuted/50">→</span>
-            <span className={session.is_active ? 'text-green-600 dark:text-green-400' : ''}>
-              {end ? format(end, 'HH:mm') : 'Now'}
+            <span className={paused ? 'text-yellow-500' : session.is_active ? 'text-green-600 dark:text-green-400' : endsLater ? 'text-textMuted/50' : ''}>
+              {end ? timeFormat(end, endsLater) : paused ? 'Paused' : 'Now'}
             </span>
+            {pausedMinutes > 0 && (
+              <span className="text-textMuted/60">({formatDuration(pausedMinutes)} paused)</span>
+            )}
           </div>
+          {crossesDay && spanMs > 0 && (
+            <div
+              className="mt-1.5 h-1 w-24 bg-surfaceHighlight rounded-full overflow-hidden relative"
+              title="Part of this session on this day"
+            >
+              <div
+                className="absolute inset-y-0 rounded-full"
+                style={{
+                  left: `${(clipStart - start.getTime()) / spanMs * 100}%`,
+                  width: `${(clipEnd - clipStart) / spanMs * 100}%`,
+                  backgroundColor: getCategoryColor(category, categoryName)
+                }}
+              />
+            </div>
+          )}
+          {(session.notes || (session.tags && session.tags.length > 0)) && (
+            <div className="mt-1 flex items-center gap-1.5 min-w-0 overflow-hidden">
+              {session.tags?.map(tag => (
+                <span key={tag} className="text-[10px] text-textMuted bg-surfaceHighlight px-1.5 py-0.5 rounded shrink-0">#{tag}</span>
+              ))}
+              {session.notes && (
+                <span className="text-xs text-textMuted truncate" title={session.notes}>{session.notes}</span>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex items-center gap-2 pl-4">
         {end && (
-          <span className="text-xs font-mono text-textMuted bg-surfaceHighlight px-2 py-1 rounded-md mr-1">
-            {formatDuration(duration)}
+          <span
+            className="text-xs font-mono text-textMuted bg-surfaceHighlight px-2 py-1 rounded-md mr-1"
+            title={crossesDay ? `${formatDuration(duration)} in total` : undefined}
+          >
+            {formatDuration(crossesDay ? dayDuration : duration)}
           </span>
         )}
 
+        <button
+          onClick={() => onSplit(session)}
+          className="text-textMuted hover:text-textMain hover:bg-surfaceHighlight p-2 rounded-lg transition-all focus:opacity-100"
+          aria-label="Split session"
+        >
+          <Scissors size={16} />
+        </button>
+
         <button
           onClick={() => onEdit(session)}
           className="text-textMuted hover:text-textMain hover:bg-surfaceHighlight p-2 rounded-lg transition-all focus:opacity-100"
@@ -1,6 +1,7 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { initStorage } from './services/storageService';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -9,8 +10,11 @@ if (!rootElement) {
 }
 
 const root = createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// Load sessions from IndexedDB and run schema migrations first, so App can read data synchronously on its first render
+initStorage().finally(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
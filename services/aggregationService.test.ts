@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { Session } from '../types';
+import { toSlices, bucketBounds, aggregate, timeOfDay } from './aggregationService';
+
+// Runs in America/New_York (see vite.config.ts): clocks went forward on 2024-03-10
+// at 2 AM and back on 2024-11-03 at 2 AM
+
+const HOUR = 3600000;
+
+const session = (id: string, start: Date, end: Date | null, category = 'Work'): Session => ({
+  id,
+  category,
+  start_time: start.toISOString(),
+  end_time: end ? end.toISOString() : null,
+  is_active: !end
+});
+
+const byCategory = (s: Session): [string, number][] => [[s.category, 1]];
+
+const length = (b: { start: Date; end: Date }) => (b.end.getTime() - b.start.getTime()) / HOUR;
+
+describe('bucketBounds', () => {
+  it('makes the day containing the spring DST change 23 hours long', () => {
+    const buckets = bucketBounds(new Date(2024, 2, 9, 4), new Date(2024, 2, 11, 4), 'day', 4);
+
+    expect(buckets.map(b => b.start)).toEqual([new Date(2024, 2, 9, 4), new Date(2024, 2, 10, 4)]);
+    expect(buckets.map(length)).toEqual([23, 24]);
+  });
+
+  it('makes the day containing the autumn DST change 25 hours long', () => {
+    const buckets = bucketBounds(new Date(2024, 10, 2, 4), new Date(2024, 10, 3, 4), 'day', 4);
+
+    expect(buckets.map(length)).toEqual([25]);
+  });
+
+  it('clamps the first and last bucket to the range', () => {
+    const buckets = bucketBounds(new Date(2024, 4, 15, 12), new Date(2024, 5, 10), 'month');
+
+    expect(buckets).toEqual([
+      { start: new Date(2024, 4, 15, 12), end: new Date(2024, 5, 1) },
+      { start: new Date(2024, 5, 1), end: new Date(2024, 5, 10) }
+    ]);
+  });
+});
+
+describe('toSlices', () => {
+  const a = session('a', new Date(2024, 4, 1, 9), new Date(2024, 4, 1, 11));
+  const b = session('b', new Date(2024, 4, 1, 10), new Date(2024, 4, 1, 12));
+
+  it('shares overlapping time equally in split mode', () => {
+    const slices = toSlices([a, b], 'split')
+      .map(s => ({ id: s.session.id, start: s.start.getHours(), end: s.end.getHours(), weight: s.weight }));
+
+    expect(slices).toEqual([
+      { id: 'a', start: 9, end: 10, weight: 1 },
+      { id: 'a', start: 10, end: 11, weight: 0.5 },
+      { id: 'b', start: 10, end: 11, weight: 0.5 },
+      { id: 'b', start: 11, end: 12, weight: 1 }
+    ]);
+  });
+
+  it('credits every tracker in full in count mode', () => {
+    expect(toSlices([a, b], 'count').map(s => s.weight)).toEqual([1, 1]);
+  });
+
+  it('leaves paused stretches out', () => {
+    const paused = {
+      ...a,
+      pauses: [{ start: new Date(2024, 4, 1, 9, 30).toISOString(), end: new Date(2024, 4, 1, 10).toISOString() }]
+    };
+
+    expect(toSlices([paused], 'split').map(length)).toEqual([0.5, 1]);
+  });
+});
+
+describe('aggregate', () => {
+  const from = new Date(2024, 2, 9, 4);
+  const to = new Date(2024, 2, 11, 4);
+  const now = new Date(2024, 3, 1);
+  const sessions = [
+    session('a', new Date(2024, 2, 9, 23), new Date(2024, 2, 10, 7), 'Sleep'),
+    session('b', new Date(2024, 2, 10, 9), new Date(2024, 2, 10, 12)),
+    session('c', new Date(2024, 2, 10, 11), new Date(2024, 2, 10, 13), 'Reading')
+  ];
+
+  it('adds tracked and untracked time up to the length of the range and each bucket', () => {
+    const result = aggregate(sessions, { from, to, bucket: 'day', dayStartHour: 4, overlapMode: 'split', keysFor: byCategory, now });
+
+    expect(result.tracked + result.untracked).toBe(47 * 60);
+    result.buckets.forEach(b => expect(b.tracked + b.untracked).toBe(length(b) * 60));
+    expect(result.buckets.map(b => b.totals)).toEqual([
+      { Sleep: 240 },
+      { Sleep: 180, Work: 150, Reading: 90 }
+    ]);
+    expect(result.hasOverlap).toBe(true);
+  });
+
+  it('credits overlapping time to every tracker in count mode', () => {
+    const result = aggregate(sessions, { from, to, keysFor: byCategory, now });
+
+    expect(result.totals).toEqual({ Sleep: 420, Work: 180, Reading: 120 });
+    expect(result.tracked).toBe(720);
+    expect(result.untracked).toBe(47 * 60 - 660);
+  });
+
+  it('runs active sessions until now and stops untracked time there', () => {
+    const active = session('d', new Date(2024, 4, 1, 9), null);
+    const result = aggregate([active], {
+      from: new Date(2024, 4, 1),
+      to: new Date(2024, 4, 2),
+      keysFor: byCategory,
+      now: new Date(2024, 4, 1, 10, 30)
+    });
+
+    expect(result.totals).toEqual({ Work: 90 });
+    expect(result.untracked).toBe(9 * 60);
+  });
+
+  it('leaves untracked time out when filtering', () => {
+    const result = aggregate(sessions, { from, to, keysFor: byCategory, filter: s => s.category === 'Work', now });
+
+    expect(result.totals).toEqual({ Work: 180 });
+    expect(result.untracked).toBe(0);
+  });
+});
+
+describe('timeOfDay', () => {
+  it('cuts sessions at hour boundaries and files late hours under the previous day', () => {
+    // Friday 22:30 to Saturday 01:15
+    const late = session('a', new Date(2024, 4, 3, 22, 30), new Date(2024, 4, 4, 1, 15));
+    const { hours, weekHours } = timeOfDay([late], {
+      from: new Date(2024, 4, 3, 4),
+      to: new Date(2024, 4, 5, 4),
+      dayStartHour: 4,
+      keysFor: byCategory,
+      now: new Date(2024, 5, 1)
+    });
+
+    expect(hours[22]).toEqual({ Work: 30 });
+    expect(hours[23]).toEqual({ Work: 60 });
+    expect(hours[0]).toEqual({ Work: 60 });
+    expect(hours[1]).toEqual({ Work: 15 });
+    expect(hours.filter(h => Object.keys(h).length > 0)).toHaveLength(4);
+
+    const friday = weekHours[4];
+    expect([friday[22], friday[23], friday[0], friday[1]]).toEqual([30, 60, 60, 15]);
+    expect(weekHours[5].every(m => m === 0)).toBe(true);
+  });
+});
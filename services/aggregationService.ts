@@ -0,0 +1,207 @@
+import { Session } from '../types';
+import { startOfWeek, startOfMonth, startOfHour, addDays, addWeeks, addMonths, addHours, differenceInCalendarDays } from 'date-fns';
+import { runningSpans, findGaps, trackingDayOf, trackingDayBounds } from '../utils';
+
+// Pure time aggregation shared by statistics and exports. All intervals are [start, end)
+// and all totals are unrounded minutes, so buckets always add up to the period total.
+
+export type OverlapMode = 'count' | 'split';
+export type BucketSize = 'day' | 'week' | 'month';
+
+export interface TimeSlice {
+  session: Session;
+  start: Date;
+  end: Date;
+  weight: number; // Share of this stretch credited to the session
+}
+
+export interface Bucket {
+  start: Date;
+  end: Date;
+}
+
+export interface BucketTotals extends Bucket {
+  totals: Record<string, number>; // Minutes per key
+  tracked: number; // Minutes; equals the sum of totals
+  untracked: number; // Minutes nothing was running, up to now
+}
+
+export interface Aggregate extends BucketTotals {
+  buckets: BucketTotals[];
+  hasOverlap: boolean; // Whether several trackers ran at once anywhere in the range
+}
+
+export interface HourDistribution {
+  hours: Record<string, number>[]; // 24 entries by clock hour, minutes per key
+  weekHours: number[][]; // [weekday, Monday first][clock hour], tracked minutes
+}
+
+export interface AggregateOptions {
+  from: Date;
+  to: Date;
+  bucket?: BucketSize | null;
+  dayStartHour?: number;
+  overlapMode?: OverlapMode;
+  // Keys a session's time is credited to, with the share each gets; shares add up to 1
+  keysFor: (session: Session) => [string, number][];
+  // Untracked time is only measured without a filter
+  filter?: ((session: Session) => boolean) | null;
+  now?: Date; // Active sessions run until now
+}
+
+// 'count' credits every running tracker in full; 'split' shares time where
+// several trackers ran at once equally between them
+export const toSlices = (sessions: Session[], mode: OverlapMode, now = Date.now()): TimeSlice[] => {
+  // Paused stretches are not tracked time
+  const spans = sessions.flatMap(s => runningSpans(s, now).map(span => ({
+    session: s,
+    start: new Date(span.start),
+    end: new Date(span.end)
+  })));
+  if (mode === 'count') return spans.map(span => ({ ...span, weight: 1 }));
+
+  // Sweep over start/end points; ends sort before starts at the same instant
+  const events = spans
+    .flatMap((span, index) => [
+      { time: span.start.getTime(), index, open: true },
+      { time: span.end.getTime(), index, open: false }
+    ])
+    .sort((a, b) => a.time - b.time || Number(a.open) - Number(b.open));
+
+  const slices: TimeSlice[] = [];
+  const running = new Set<number>();
+  let previous = 0;
+  events.forEach(event => {
+    if (running.size > 0 && event.time > previous) {
+      running.forEach(index => slices.push({
+        session: spans[index].session,
+        start: new Date(previous),
+        end: new Date(event.time),
+        weight: 1 / running.size
+      }));
+    }
+    previous = event.time;
+    if (event.open) running.add(event.index);
+    else running.delete(event.index);
+  });
+  return slices;
+};
+
+// A bucket size that gives a readable number of bars: days for up to two weeks,
+// weeks up to about a quarter, months beyond. Null for a single day.
+export const bucketSizeFor = (from: Date, to: Date, dayStartHour = 0): BucketSize | null => {
+  const days = differenceInCalendarDays(trackingDayOf(new Date(to.getTime() - 1), dayStartHour), trackingDayOf(from, dayStartHour)) + 1;
+  if (days <= 1) return null;
+  if (days <= 14) return 'day';
+  if (days <= 95) return 'week';
+  return 'month';
+};
+
+// Day, week (Monday start) or month boundaries within [from, to), beginning at `dayStartHour`.
+// Built from calendar dates rather than fixed lengths, so DST days are 23 or 25 hours long.
+// The first and last buckets are clamped to the range.
+export const bucketBounds = (from: Date, to: Date, size: BucketSize, dayStartHour = 0): Bucket[] => {
+  const firstDay = trackingDayOf(from, dayStartHour);
+  let cursor = size === 'week'
+    ? startOfWeek(firstDay, { weekStartsOn: 1 })
+    : size === 'month' ? startOfMonth(firstDay) : firstDay;
+  const step = (day: Date) => size === 'day' ? addDays(day, 1) : size === 'week' ? addWeeks(day, 1) : addMonths(day, 1);
+
+  const buckets: Bucket[] = [];
+  while (true) {
+    const next = step(cursor);
+    const start = trackingDayBounds(cursor, dayStartHour).start;
+    const end = trackingDayBounds(next, dayStartHour).start;
+    if (start >= to) break;
+    if (end > from) buckets.push({ start: start < from ? from : start, end: end > to ? to : end });
+    cursor = next;
+  }
+  return buckets;
+};
+
+// Sessions running in [from, to), sliced, with overlaps resolved across everything that ran
+// and then narrowed to the filter
+const sliceRange = (sessions: Session[], from: Date, to: Date, overlapMode: OverlapMode, filter: AggregateOptions['filter'], now: Date) => {
+  const inRange = sessions.filter(s => {
+    const start = new Date(s.start_time);
+    const end = s.end_time ? new Date(s.end_time) : now;
+    return start < to && end > from;
+  });
+
+  const split = toSlices(inRange, 'split', now.getTime());
+  const all = overlapMode === 'split' ? split : toSlices(inRange, 'count', now.getTime());
+  return {
+    inRange,
+    slices: filter ? all.filter(sl => filter(sl.session)) : all,
+    hasOverlap: split.some(sl => sl.weight < 1)
+  };
+};
+
+// Per-key minutes for [from, to] and, optionally, each bucket within it
+export const aggregate = (sessions: Session[], options: AggregateOptions): Aggregate => {
+  const { from, to, bucket = null, dayStartHour = 0, overlapMode = 'count', keysFor, filter = null, now = new Date() } = options;
+  const { inRange, slices, hasOverlap } = sliceRange(sessions, from, to, overlapMode, filter, now);
+
+  // Pauses count as untracked; the future doesn't
+  const gaps = filter ? [] : findGaps(
+    inRange.flatMap(s => runningSpans(s, now.getTime())),
+    from.getTime(),
+    Math.min(to.getTime(), now.getTime())
+  );
+
+  const measure = (start: Date, end: Date): BucketTotals => {
+    const totals: Record<string, number> = {};
+    let tracked = 0;
+    slices.forEach(({ session, start: sStart, end: sEnd, weight }) => {
+      const clippedStart = Math.max(sStart.getTime(), start.getTime());
+      const clippedEnd = Math.min(sEnd.getTime(), end.getTime());
+      if (clippedStart >= clippedEnd) return;
+
+      const minutes = (clippedEnd - clippedStart) / 60000 * weight;
+      keysFor(session).forEach(([key, share]) => {
+        totals[key] = (totals[key] || 0) + minutes * share;
+      });
+      tracked += minutes;
+    });
+
+    const untracked = gaps.reduce((sum, gap) =>
+      sum + Math.max(0, Math.min(gap.end, end.getTime()) - Math.max(gap.start, start.getTime())) / 60000, 0);
+    return { start, end, totals, tracked, untracked };
+  };
+
+  return {
+    ...measure(from, to),
+    buckets: bucket ? bucketBounds(from, to, bucket, dayStartHour).map(b => measure(b.start, b.end)) : [],
+    hasOverlap
+  };
+};
+
+// When tracked time happens: minutes per clock hour (and per weekday and hour) within [from, to).
+// Sessions are cut at every hour boundary, so a long session counts towards each hour it covers.
+// Weekdays follow the day start, so 1 AM after a Friday counts as Friday night.
+export const timeOfDay = (sessions: Session[], options: Omit<AggregateOptions, 'bucket'>): HourDistribution => {
+  const { from, to, dayStartHour = 0, overlapMode = 'count', keysFor, filter = null, now = new Date() } = options;
+  const { slices } = sliceRange(sessions, from, to, overlapMode, filter, now);
+
+  const hours: Record<string, number>[] = Array.from({ length: 24 }, () => ({}));
+  const weekHours = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+
+  slices.forEach(({ session, start, end, weight }) => {
+    const clippedEnd = Math.min(end.getTime(), to.getTime());
+    let cursor = new Date(Math.max(start.getTime(), from.getTime()));
+    while (cursor.getTime() < clippedEnd) {
+      const next = new Date(Math.min(addHours(startOfHour(cursor), 1).getTime(), clippedEnd));
+      const minutes = (next.getTime() - cursor.getTime()) / 60000 * weight;
+      const hour = cursor.getHours();
+      const weekday = (trackingDayOf(cursor, dayStartHour).getDay() + 6) % 7;
+
+      keysFor(session).forEach(([key, share]) => {
+        hours[hour][key] = (hours[hour][key] || 0) + minutes * share;
+      });
+      weekHours[weekday][hour] += minutes;
+      cursor = next;
+    }
+  });
+
+  return { hours, weekHours };
+};
@@ -0,0 +1,168 @@
+import { Session, CategoryItem, ExportFormatting } from '../types';
+import { format, addDays } from 'date-fns';
+import { exportData, buildCSV, buildICS, downloadFile } from './storageService';
+import { getCategoryKey, getCategoryName, trackedMs, trackingDayOf } from '../utils';
+import { bucketBounds } from './aggregationService';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'ics';
+export type TimestampFormat = 'iso' | 'local';
+export type RoundingMode = 'up' | 'nearest';
+
+export interface ExportOptions {
+  from: Date | null; // Inclusive; null for no lower bound
+  to: Date | null; // Exclusive; null for no upper bound
+  categoryIds: string[] | null; // null exports every category
+  timestampFormat: TimestampFormat;
+  roundTo: 0 | 5 | 15; // Minutes; 0 keeps exact durations
+  rounding: RoundingMode;
+  splitAtMidnight: boolean; // Splits at the start of day, which may be after midnight
+  dayStartHour: number;
+  format: ExportFormat;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  from: null,
+  to: null,
+  categoryIds: null,
+  timestampFormat: 'iso',
+  roundTo: 0,
+  rounding: 'nearest',
+  splitAtMidnight: false,
+  dayStartHour: 0,
+  format: 'csv'
+};
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  ics: { extension: 'ics', mimeType: 'text/calendar;charset=utf-8' }
+};
+
+// Duration in minutes, rounded per session so rows add up to the totals people bill
+export const roundMinutes = (ms: number, roundTo: number, rounding: RoundingMode) => {
+  const minutes = ms / 60000;
+  if (!roundTo) return Math.round(minutes * 100) / 100;
+  const steps = minutes / roundTo;
+  return (rounding === 'up' ? Math.ceil(steps) : Math.round(steps)) * roundTo;
+};
+
+// Cut a session into one piece per day it touches; active sessions keep their open end
+const splitAtDayStart = (session: Session, dayStartHour: number): Session[] => {
+  const end = session.end_time ? new Date(session.end_time) : new Date();
+  const days = bucketBounds(new Date(session.start_time), end, 'day', dayStartHour);
+  if (days.length <= 1) return [session];
+
+  return days.map((day, i) => i < days.length - 1
+    ? { ...session, start_time: day.start.toISOString(), end_time: day.end.toISOString(), is_active: false }
+    : { ...session, start_time: day.start.toISOString() });
+};
+
+// Sessions (or day pieces) matching the options, oldest first
+export const selectExportSessions = (
+  sessions: Session[],
+  categories: CategoryItem[],
+  options: ExportOptions
+): Session[] => {
+  const selected = options.categoryIds && new Set(options.categoryIds);
+  const now = Date.now();
+
+  return sessions
+    .filter(s => !selected || selected.has(getCategoryKey(s, categories)))
+    // Calendars get whole events; splitting only applies to tabular formats
+    .flatMap(s => options.splitAtMidnight && options.format !== 'ics' ? splitAtDayStart(s, options.dayStartHour) : [s])
+    .filter(s => {
+      const start = new Date(s.start_time).getTime();
+      const end = s.end_time ? new Date(s.end_time).getTime() : now;
+      return (!options.to || start < options.to.getTime()) && (!options.from || end > options.from.getTime());
+    })
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+};
+
+const formattingFor = (options: ExportOptions): ExportFormatting => ({
+  timestamp: options.timestampFormat === 'iso'
+    ? (date) => date.toISOString()
+    : (date) => format(date, 'yyyy-MM-dd HH:mm'),
+  minutes: (ms) => roundMinutes(ms, options.roundTo, options.rounding)
+});
+
+const formatHours = (minutes: number) => {
+  const whole = Math.round(minutes);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Per-day, per-activity totals ready to paste into a timesheet. Active sessions are left out.
+const buildMarkdown = (sessions: Session[], categories: CategoryItem[], options: ExportOptions) => {
+  const rows = new Map<string, { day: string; name: string; count: number; minutes: number }>();
+  const totals = new Map<string, number>();
+
+  sessions.filter(s => s.end_time).forEach(s => {
+    const day = format(trackingDayOf(new Date(s.start_time), options.dayStartHour), 'yyyy-MM-dd');
+    const name = getCategoryName(s, categories);
+    const minutes = roundMinutes(trackedMs(s), options.roundTo, options.rounding);
+    const key = `${day}|${name}`;
+    const row = rows.get(key) ?? { day, name, count: 0, minutes: 0 };
+    row.count++;
+    row.minutes += minutes;
+    rows.set(key, row);
+    totals.set(name, (totals.get(name) ?? 0) + minutes);
+  });
+
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  const range = options.from || options.to
+    ? [
+      options.from ? format(trackingDayOf(options.from, options.dayStartHour), 'yyyy-MM-dd') : 'start',
+      options.to ? format(addDays(trackingDayOf(options.to, options.dayStartHour), -1), 'yyyy-MM-dd') : 'today'
+    ].join(' to ')
+    : 'all time';
+  const grandTotal = Array.from(totals.values()).reduce((sum, m) => sum + m, 0);
+
+  return [
+    `# ChronoPulse time report (${range})`,
+    '',
+    '| Date | Activity | Sessions | Duration |',
+    '| --- | --- | ---: | ---: |',
+    ...Array.from(rows.values()).map(r => `| ${r.day} | ${escape(r.name)} | ${r.count} | ${formatHours(r.minutes)} |`),
+    '',
+    '| Activity | Total |',
+    '| --- | ---: |',
+    ...Array.from(totals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, minutes]) => `| ${escape(name)} | ${formatHours(minutes)} |`),
+    `| **Total** | **${formatHours(grandTotal)}** |`,
+    ''
+  ].join('\n');
+};
+
+export const buildExport = (sessions: Session[], categories: CategoryItem[], options: ExportOptions) => {
+  const selected = selectExportSessions(sessions, categories, options);
+  const formatting = formattingFor(options);
+
+  let content: string;
+  switch (options.format) {
+    case 'json':
+      content = exportData(selected, categories, formatting);
+      break;
+    case 'markdown':
+      content = buildMarkdown(selected, categories, options);
+      break;
+    case 'ics':
+      content = buildICS(selected, categories);
+      break;
+    default:
+      content = buildCSV(selected, categories, formatting);
+  }
+
+  const { extension, mimeType } = FILE_TYPES[options.format];
+  return {
+    fileName: `chronopulse_export_${format(new Date(), 'yyyy-MM-dd')}.${extension}`,
+    content,
+    mimeType,
+    count: selected.length
+  };
+};
+
+export const downloadExport = (sessions: Session[], categories: CategoryItem[], options: ExportOptions) => {
+  const { fileName, content, mimeType } = buildExport(sessions, categories, options);
+  downloadFile(fileName, content, mimeType);
+};
@@ -0,0 +1,345 @@
+import { Session, CategoryItem } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { getCategoryName, parseTags, findOverlaps } from '../utils';
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  isNative: boolean; // Produced by ChronoPulse's own exporters
+  isCalendar?: boolean; // Built from an .ics file; needs a category mapping step
+  rowLines?: number[]; // Source line of each row when it is not simply index + 2
+  issues?: ImportIssue[]; // Entries dropped while parsing
+}
+
+// Column indexes into ImportTable.headers; -1 when the file has no such column
+export interface ColumnMapping {
+  category: number;
+  start: number;
+  end: number;
+  duration: number;
+  notes: number;
+  tags: number;
+}
+
+export interface ImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface ImportPlan {
+  sessions: Session[];
+  newCategories: CategoryItem[];
+  duplicates: number;
+  skipped: number;
+  overlapping: string[]; // Ids of planned sessions that overlap existing ones or each other
+  issues: ImportIssue[];
+}
+
+// Lowercased source name -> existing category name; null skips those rows,
+// a missing entry or '' keeps the source name (creating the category if needed)
+export type CategoryMap = Record<string, string | null>;
+
+const NATIVE_CSV_HEADERS = ["Category", "Start Time", "End Time", "Duration (Minutes)", "Status"];
+
+// RFC 4180-ish: quoted fields, "" escapes, commas and newlines inside quotes
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const parseJSON = (text: string): ImportTable => {
+  const parsed = JSON.parse(text);
+  const records: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed.sessions;
+  if (!Array.isArray(records)) throw new Error("Expected a list of sessions");
+
+  const headers = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+  const rows = records.map(r => headers.map(h => r[h] == null ? '' : String(r[h])));
+  return { headers, rows, isNative: true };
+};
+
+const ICS_HEADERS = ["Activity", "Start Time", "End Time", "Notes", "Tags"];
+
+// DATE-TIME values: trailing Z is UTC; floating and TZID times are read as device-local
+const parseICSDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, sec, utc] = match;
+  const parts = [+y, +mo - 1, +d, +h, +mi, +sec] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+// ISO 8601 durations as used by RFC 5545, e.g. PT1H30M, P1DT2H, P2W
+const parseICSDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, sec] = match;
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * 86400 + +(h || 0) * 3600 + +(m || 0) * 60 + +(sec || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const unescapeICSText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Each VEVENT becomes a row of summary, start and end (ISO). Multi-day events stay one
+// row; all-day events and events without an end are reported instead of guessed at.
+// Recurring events are imported once, at their first occurrence.
+export const parseICS = (text: string): ImportTable => {
+  const physical = text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/);
+  if (!physical.some(l => l.trim() === 'BEGIN:VCALENDAR')) throw new Error("Not an iCalendar file");
+
+  // Unfold continuation lines, remembering where each logical line started
+  const lines: { text: string; line: number }[] = [];
+  physical.forEach((l, i) => {
+    if ((l.startsWith(' ') || l.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1].text += l.slice(1);
+    } else {
+      lines.push({ text: l, line: i + 1 });
+    }
+  });
+
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+  const issues: ImportIssue[] = [];
+  let event: Record<string, { params: string; value: string }> | null = null;
+  let eventLine = 0;
+
+  lines.forEach(({ text: l, line }) => {
+    if (l === 'BEGIN:VEVENT') {
+      event = {};
+      eventLine = line;
+      return;
+    }
+    if (!event) return;
+
+    if (l === 'END:VEVENT') {
+      const summary = unescapeICSText(event.SUMMARY?.value ?? '').trim();
+      const dtstart = event.DTSTART;
+      const isAllDay = /VALUE=DATE(?!-)/.test(dtstart?.params ?? '') || /^\d{8}$/.test(dtstart?.value ?? '');
+      const start = dtstart && !isAllDay ? parseICSDate(dtstart.value) : null;
+      let end = event.DTEND ? parseICSDate(event.DTEND.value) : null;
+      if (!end && start && event.DURATION) {
+        const ms = parseICSDuration(event.DURATION.value);
+        if (ms !== null) end = new Date(start.getTime() + ms);
+      }
+
+      if (isAllDay) {
+        issues.push({ line: eventLine, reason: 'All-day events are skipped' });
+      } else {
+        rows.push([
+          summary,
+          start?.toISOString() ?? '',
+          end?.toISOString() ?? '',
+          unescapeICSText(event.DESCRIPTION?.value ?? ''),
+          unescapeICSText(event.CATEGORIES?.value ?? '')
+        ]);
+        rowLines.push(eventLine);
+      }
+      event = null;
+      return;
+    }
+
+    const colon = l.indexOf(':');
+    if (colon < 0) return;
+    const [name, ...params] = l.slice(0, colon).split(';');
+    // First occurrence wins; nested VALARMs repeat some property names
+    if (!event[name.toUpperCase()]) {
+      event[name.toUpperCase()] = { params: params.join(';').toUpperCase(), value: l.slice(colon + 1) };
+    }
+  });
+
+  return { headers: ICS_HEADERS, rows, isNative: true, isCalendar: true, rowLines, issues };
+};
+
+export const parseImportFile = (fileName: string, text: string): ImportTable => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.json')) return parseJSON(text);
+  if (lowerName.endsWith('.ics')) return parseICS(text);
+
+  const [headers = [], ...rows] = parseCSV(text.replace(/^\uFEFF/, ''));
+  const isNative = NATIVE_CSV_HEADERS.every((h, i) => headers[i] === h);
+  return { headers, rows, isNative };
+};
+
+// Best guess at which columns hold what, based on header names
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp, exclude?: RegExp) =>
+    headers.findIndex(h => pattern.test(h) && !(exclude && exclude.test(h)));
+
+  return {
+    category: find(/category|activity|project|task|tag/i, /^tags$|note/i),
+    start: find(/start|begin|from/i),
+    end: find(/end|stop|finish|to$/i),
+    duration: find(/duration|minutes/i),
+    notes: find(/note|description|comment/i),
+    tags: find(/^tags$|label/i)
+  };
+};
+
+// Older native CSVs wrote toLocaleString(), e.g. "19/10/2026, 14:00:00" or "10/19/2026, 2:00:00 PM"
+const LOCALE_DATE = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap])?\.?m?\.?$/i;
+
+// Day, month and year order of this device's locale, which most likely wrote those files
+const localeDateOrder = (): string[] => new Intl.DateTimeFormat(undefined, { year: 'numeric', month: 'numeric', day: 'numeric' })
+  .formatToParts(new Date(2000, 11, 31))
+  .map(part => part.type)
+  .filter(type => type === 'day' || type === 'month' || type === 'year');
+
+const parseLocaleDate = (value: string, order: string[]) => {
+  const match = value.match(LOCALE_DATE);
+  if (!match) return null;
+
+  const [, first, second, third, hours, minutes, seconds = '0', meridiem] = match;
+  const fields: Record<string, number> = {};
+  order.forEach((type, i) => { fields[type] = Number([first, second, third][i]); });
+  const { day, month, year } = fields;
+
+  let hour = Number(hours);
+  if (meridiem) hour = hour % 12 + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+
+  const date = new Date(year, month - 1, day, hour, Number(minutes), Number(seconds));
+  // Reject rollovers such as 31/02
+  return date.getDate() === day && date.getMonth() === month - 1 ? date : null;
+};
+
+const parseDate = (value: string | undefined) => {
+  if (!value || !value.trim()) return null;
+  // Fall back to the other day/month order for files written under another locale
+  const order = localeDateOrder();
+  const swapped = order.map(type => type === 'day' ? 'month' : type === 'month' ? 'day' : type);
+  const localeDate = parseLocaleDate(value.trim(), order) ?? parseLocaleDate(value.trim(), swapped);
+  if (localeDate) return localeDate;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const minuteKey = (iso: string) => Math.floor(new Date(iso).getTime() / 60000);
+
+// Validate rows, map categories and drop sessions that already exist
+export const buildImportPlan = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existingSessions: Session[],
+  categories: CategoryItem[],
+  categoryMap: CategoryMap = {}
+): ImportPlan => {
+  const issues: ImportIssue[] = [...(table.issues ?? [])];
+  const sessions: Session[] = [];
+  const newCategories: CategoryItem[] = [];
+  let duplicates = 0;
+  let skipped = 0;
+
+  const byName = new Map(categories.map(c => [c.name.toLowerCase(), c]));
+  const seen = new Set(existingSessions
+    .filter(s => s.end_time)
+    .map(s => `${getCategoryName(s, categories).toLowerCase()}|${minuteKey(s.start_time)}|${minuteKey(s.end_time!)}`));
+
+  table.rows.forEach((row, index) => {
+    // Header is line 1
+    const line = table.rowLines?.[index] ?? index + 2;
+    const sourceName = (row[mapping.category] ?? '').trim();
+    const target = categoryMap[sourceName.toLowerCase()];
+    if (target === null) {
+      skipped++;
+      return;
+    }
+    const name = target || sourceName;
+    const start = parseDate(row[mapping.start]);
+    let end = parseDate(row[mapping.end]);
+
+    if (!end && mapping.duration >= 0) {
+      const minutes = parseFloat(row[mapping.duration]);
+      if (start && !isNaN(minutes)) end = new Date(start.getTime() + minutes * 60000);
+    }
+
+    let reason: string | null = null;
+    if (!name) reason = 'Missing category';
+    else if (!start) reason = 'Invalid start time';
+    else if (!end) reason = 'Missing or invalid end time (active sessions are skipped)';
+    else if (end <= start) reason = 'End is not after start';
+
+    if (reason || !start || !end) {
+      issues.push({ line, reason: reason! });
+      return;
+    }
+
+    let category = byName.get(name.toLowerCase());
+    if (!category) {
+      category = { id: uuidv4(), name, icon: 'Activity' };
+      byName.set(name.toLowerCase(), category);
+      newCategories.push(category);
+    }
+
+    const session: Session = {
+      id: uuidv4(),
+      category: category.name,
+      category_id: category.id,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      is_active: false,
+      created_at: new Date().toISOString()
+    };
+    const notes = (row[mapping.notes] ?? '').trim();
+    const tags = parseTags(row[mapping.tags] ?? '');
+    if (notes) session.notes = notes;
+    if (tags.length > 0) session.tags = tags;
+
+    const key = `${category.name.toLowerCase()}|${minuteKey(session.start_time)}|${minuteKey(session.end_time!)}`;
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+    sessions.push(session);
+  });
+
+  // Only create categories that something actually uses
+  const usedIds = new Set(sessions.map(s => s.category_id));
+  const allCategories = [...categories, ...newCategories];
+  const overlapping = sessions
+    .filter((s, i) => findOverlaps(s, [...existingSessions, ...sessions.slice(0, i)], allCategories).length > 0)
+    .map(s => s.id);
+
+  return {
+    sessions,
+    newCategories: newCategories.filter(c => usedIds.has(c.id)),
+    duplicates,
+    skipped,
+    overlapping,
+    issues: issues.sort((a, b) => a.line - b.line)
+  };
+};
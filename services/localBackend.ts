@@ -0,0 +1,12 @@
+import { StorageBackend } from './storageBackend';
+
+export const LOCAL_USER_ID = 'local-user';
+
+// Local-only mode: the device cache is the store, so every push succeeds immediately
+export const localBackend: StorageBackend = {
+  kind: 'local',
+  getUserId: async () => LOCAL_USER_ID,
+  fetchAll: async () => ({ data: null, error: null }),
+  upsert: async () => ({ error: null }),
+  remove: async () => ({ error: null })
+};
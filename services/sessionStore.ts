@@ -0,0 +1,140 @@
+import { Session, PendingChange } from '../types';
+
+// IndexedDB persistence for sessions and the sync outbox. storageService keeps in-memory snapshots on top of this.
+const DB_NAME = 'chronopulse';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const META_STORE = 'meta'; // Key/value blobs, e.g. pre-migration backups
+const OUTBOX_STORE = 'outbox'; // Pending remote changes, one row each
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('start_time', 'start_time');
+          store.createIndex('category', 'category');
+          store.createIndex('category_id', 'category_id');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      let blocked = false;
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          // Opened after we already gave up; a later call reopens it
+          db.close();
+          return;
+        }
+        // Step aside when a newer version of the app (another tab) needs to upgrade
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // A tab still holding the previous version keeps the upgrade waiting indefinitely;
+      // give up so the app falls back instead of never rendering
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error("IndexedDB upgrade blocked by another open tab"));
+      };
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const write = async (fn: (store: IDBObjectStore) => void, storeName = SESSIONS_STORE) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// All sessions, newest start first
+export const readAllSessions = async (): Promise<Session[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db
+      .transaction(SESSIONS_STORE, 'readonly')
+      .objectStore(SESSIONS_STORE)
+      .index('start_time')
+      .getAll();
+    request.onsuccess = () => resolve((request.result as Session[]).reverse());
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putSessions = (sessions: Session[]) =>
+  write(store => sessions.forEach(s => store.put(s)));
+
+export const deleteSessions = (ids: string[]) =>
+  write(store => ids.forEach(id => store.delete(id)));
+
+export const replaceAllSessions = (sessions: Session[]) =>
+  write(store => {
+    store.clear();
+    sessions.forEach(s => store.put(s));
+  });
+
+export const readMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const writeMeta = (key: string, value: unknown) =>
+  write(store => {
+    if (value === undefined) store.delete(key);
+    else store.put(value, key);
+  }, META_STORE);
+
+// Pending changes, oldest first
+export const readOutbox = async (): Promise<PendingChange[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).getAll();
+    request.onsuccess = () => resolve((request.result as PendingChange[])
+      .sort((a, b) => a.queued_at.localeCompare(b.queued_at)));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putChanges = (changes: PendingChange[]) =>
+  write(store => changes.forEach(c => store.put(c)), OUTBOX_STORE);
+
+export const deleteChanges = (ids: string[]) =>
+  write(store => ids.forEach(id => store.delete(id)), OUTBOX_STORE);
+
+export const replaceOutbox = (changes: PendingChange[]) =>
+  write(store => {
+    store.clear();
+    changes.forEach(c => store.put(c));
+  }, OUTBOX_STORE);
@@ -0,0 +1,19 @@
+import { SyncTable } from '../types';
+
+export type BackendKind = 'local' | 'supabase';
+
+export interface BackendError {
+  message: string;
+}
+
+// Where synced records live. The device cache in storageService is always the
+// working copy; a backend is what the outbox pushes to and what loads merge from.
+export interface StorageBackend {
+  readonly kind: BackendKind;
+  // Owner id stamped on pushed records, or null while nobody is signed in
+  getUserId(): Promise<string | null>;
+  // Stored rows, or null data when the device cache is the only copy
+  fetchAll<T>(table: SyncTable, order: { column: string; ascending: boolean }): Promise<{ data: T[] | null; error: BackendError | null }>;
+  upsert(table: SyncTable, record: object): Promise<{ error: BackendError | null }>;
+  remove(table: SyncTable, id: string): Promise<{ error: BackendError | null }>;
+}
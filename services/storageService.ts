@@ -1,137 +1,736 @@
-import { Session, Category, CategoryItem } from '../types';
+import {
+  Session,
+  CategoryItem,
+  PendingChange,
+  SyncConflict,
+  SyncResult,
+  SyncTable,
+  BackupFile,
+  RestoreMode,
+  RestoreSummary,
+  ExportFormatting
+} from '../types';
 import { STORAGE_KEY, CATEGORIES as DEFAULT_CATEGORIES } from '../constants';
 import { v4 as uuidv4 } from 'uuid';
 
-import { supabase } from './supabaseClient';
-import { PostgrestError } from '@supabase/supabase-js';
+import { BackendError, BackendKind, StorageBackend } from './storageBackend';
+import { localBackend } from './localBackend';
+import { supabaseBackend } from './supabaseBackend';
+import {
+  readAllSessions,
+  putSessions,
+  deleteSessions,
+  replaceAllSessions,
+  readOutbox,
+  putChanges,
+  deleteChanges,
+  replaceOutbox,
+  readMeta,
+  writeMeta
+} from './sessionStore';
+import { getCategoryName, formatTags, trackedMs } from '../utils';
 
 const CATEGORIES_KEY = 'chronopulse_categories_v1';
 const THEME_KEY = 'chronopulse_theme_v1';
+const CONCURRENT_KEY = 'chronopulse_concurrent_v1';
+const DAY_START_KEY = 'chronopulse_day_start_v1';
+const OUTBOX_KEY = 'chronopulse_outbox_v1';
+const CATEGORIES_SYNCED_KEY = 'chronopulse_categories_synced_v1';
+const OWNER_KEY = 'chronopulse_owner_v1';
+const BACKEND_KEY = 'chronopulse_backend_v1';
+const SCHEMA_VERSION_KEY = 'chronopulse_schema_version';
+const MIGRATION_BACKUP_KEY = 'chronopulse_migration_backup';
+const MIGRATION_HOLD_KEY = 'chronopulse_migration_hold';
+
+// --- Backend ---
+
+const BACKENDS: Record<BackendKind, StorageBackend> = {
+  local: localBackend,
+  supabase: supabaseBackend
+};
+
+export const loadBackendKind = (): BackendKind => {
+  const stored = localStorage.getItem(BACKEND_KEY);
+  if (stored === 'local' || stored === 'supabase') return stored;
+  return import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase';
+};
+
+let backend: StorageBackend = BACKENDS[loadBackendKind()];
+
+export const getBackendKind = (): BackendKind => backend.kind;
+
+// Tie the device's data to the account that signed in. Data left by another account
+// (including its unsynced changes) is dropped so it never shows up or uploads under
+// this one. Returns whether anything was cleared.
+export const claimLocalData = (userId: string): boolean => {
+  const owner = localStorage.getItem(OWNER_KEY);
+  localStorage.setItem(OWNER_KEY, userId);
+  // Data from before accounts were tracked stays with whoever signs in first
+  if (!owner || owner === userId) return false;
+
+  clearAllData();
+  return true;
+};
+
+// Switch where data syncs to. Everything on this device is re-queued for the new backend.
+export const setStorageBackend = (kind: BackendKind) => {
+  if (kind === backend.kind) return;
+  localStorage.setItem(BACKEND_KEY, kind);
+  backend = BACKENDS[kind];
+
+  // Nothing has synced with the new backend yet
+  saveSessionsLocal(loadSessionsLocal().map(({ remote_updated_at, ...s }) => ({ ...s, synced: false })));
+  writeCategoriesCache(readCategoriesCache().map(({ remote_updated_at, ...c }) => ({ ...c, synced: false })));
+  localStorage.removeItem(CATEGORIES_SYNCED_KEY);
+  saveOutbox([]);
+};
 
 // --- Sessions ---
 
-// 1. Local (Sync)
-export const loadSessionsLocal = (): Session[] => {
+// Sessions live in IndexedDB; this snapshot keeps local reads synchronous for rendering.
+// Until initSessionStore() runs (or if IndexedDB is unavailable) the legacy localStorage key is used.
+let sessionSnapshot: Session[] | null = null;
+let useIndexedDb = false;
+
+const readLegacySessions = (): Session[] | null => {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return stored ? JSON.parse(stored) : null;
   } catch (e) {
     console.error("Failed to load sessions locally", e);
-    return [];
+    return null;
   }
 };
 
-// 2. Remote (Async) - now syncs remote changes back to local
-export const loadSessions = async (): Promise<Session[]> => {
-  // Try Supabase first (if configured)
-  if (supabase) {
-    const { data, error } = await supabase
-      .from('sessions')
-      .select('*')
-      .order('start_time', { ascending: false });
+const writeLegacySessions = (sessions: Session[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (e) {
+    console.error("Failed to save sessions", e);
+  }
+};
 
-    if (!error && data) {
-      // Update local storage cache
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-      return data as Session[];
-    } else if (error) {
-      console.error("Supabase load error:", error);
+// Moves localStorage sessions and outbox into IndexedDB the first time, then loads the snapshots
+const initSessionStore = async () => {
+  try {
+    const legacy = readLegacySessions();
+    if (legacy) {
+      await putSessions(legacy);
+      localStorage.removeItem(STORAGE_KEY);
     }
+    if (localStorage.getItem(OUTBOX_KEY)) {
+      await putChanges(readLegacyOutbox());
+      localStorage.removeItem(OUTBOX_KEY);
+    }
+    sessionSnapshot = await readAllSessions();
+    outboxSnapshot = await readOutbox();
+    useIndexedDb = true;
+  } catch (e) {
+    console.error("IndexedDB unavailable, keeping sessions in localStorage", e);
+    sessionSnapshot = readLegacySessions() ?? [];
+    outboxSnapshot = readLegacyOutbox();
+  }
+};
+
+// Write changed/removed sessions through to the snapshot and the store
+const persistSessions = (changed: Session[], removedIds: string[] = []) => {
+  const touched = new Set([...changed.map(s => s.id), ...removedIds]);
+  sessionSnapshot = [...changed, ...loadSessionsLocal().filter(s => !touched.has(s.id))];
+
+  if (!useIndexedDb) {
+    writeLegacySessions(sessionSnapshot);
+    return;
+  }
+  if (changed.length > 0) putSessions(changed).catch(e => console.error("Failed to save sessions", e));
+  if (removedIds.length > 0) deleteSessions(removedIds).catch(e => console.error("Failed to delete sessions", e));
+};
+
+// 1. Local (Sync)
+export const loadSessionsLocal = (): Session[] => {
+  return sessionSnapshot ?? readLegacySessions() ?? [];
+};
+
+// 2. Remote (Async) - merges backend changes with the local cache
+export const loadSessions = async (): Promise<SyncResult> => {
+  // Merge from the backend when it keeps its own copy
+  const { data, error } = await backend.fetchAll<Session>('sessions', { column: 'start_time', ascending: false });
+
+  if (!error && data) {
+    const result = mergeSessions(loadSessionsLocal(), data);
+    // Update local storage cache
+    saveSessionsLocal(result.sessions);
+    // Push local records that survived the merge
+    flushOutbox();
+    return result;
+  } else if (error) {
+    console.error("Backend load error:", error);
   }
 
   // Fallback
-  return loadSessionsLocal();
+  return { sessions: loadSessionsLocal(), conflicts: [] };
+};
+
+interface MergeOptions<T> {
+  table: SyncTable;
+  isDirty: (local: T, pendingUpsert: boolean) => boolean;
+  isSameContent: (a: T, b: T) => boolean;
+}
+
+const timestampOf = (record: Session | CategoryItem) =>
+  new Date(record.updated_at || record.created_at || 0).getTime();
+
+const timeOf = (iso: string | null) => iso ? new Date(iso).getTime() : null;
+
+// jsonb reorders object keys, so compare pauses by their instants
+const pausesKey = (s: Session) =>
+  (s.pauses ?? []).map(p => `${timeOf(p.start)}-${timeOf(p.end)}`).join(',');
+
+// Compare the user-editable fields only (Postgres and JS format timestamps differently)
+const isSameSession = (a: Session, b: Session) =>
+  a.category === b.category &&
+  (a.category_id || null) === (b.category_id || null) &&
+  a.is_active === b.is_active &&
+  timeOf(a.start_time) === timeOf(b.start_time) &&
+  timeOf(a.end_time) === timeOf(b.end_time) &&
+  (a.notes || '') === (b.notes || '') &&
+  (a.tags ?? []).join(' ') === (b.tags ?? []).join(' ') &&
+  pausesKey(a) === pausesKey(b);
+
+const isSameCategory = (a: CategoryItem, b: CategoryItem) =>
+  a.name === b.name &&
+  a.icon === b.icon &&
+  (a.color || null) === (b.color || null) &&
+  (a.position ?? null) === (b.position ?? null) &&
+  !!a.archived === !!b.archived &&
+  !!a.concurrent === !!b.concurrent;
+
+// Reconcile local and remote by id. Unsynced local records are kept and queued;
+// when both sides changed, the newest updated_at wins and the other is reported.
+// A remote that still carries the updated_at the local copy last synced with has not
+// changed, so an offline edit on top of it is simply kept.
+const mergeRecords = <T extends Session | CategoryItem>(local: T[], remote: T[], options: MergeOptions<T>) => {
+  const { table, isDirty, isSameContent } = options;
+  const outbox = loadOutbox();
+  const tableChanges = outbox.filter(c => c.table === table);
+  const pendingUpserts = new Set(tableChanges.filter(c => c.op === 'upsert').map(c => c.record_id));
+  const pendingDeletes = new Set(tableChanges.filter(c => c.op === 'delete').map(c => c.record_id));
+  const localById = new Map(local.map(r => [r.id, r]));
+  const remoteIds = new Set(remote.map(r => r.id));
+
+  const merged: T[] = [];
+  const conflicts: { local: T; remote: T; kept: 'local' | 'remote' }[] = [];
+  const discarded: string[] = [];
+
+  remote.forEach(remoteRecord => {
+    if (pendingDeletes.has(remoteRecord.id)) return;
+
+    const fromRemote = { ...remoteRecord, synced: true, remote_updated_at: remoteRecord.updated_at };
+    const localRecord = localById.get(remoteRecord.id);
+    const dirty = !!localRecord && isDirty(localRecord, pendingUpserts.has(localRecord.id));
+
+    if (!localRecord || !dirty) {
+      merged.push(fromRemote);
+      return;
+    }
+
+    // The edit already reached the backend; nothing left to push
+    if (isSameContent(localRecord, remoteRecord)) {
+      merged.push(fromRemote);
+      discarded.push(localRecord.id);
+      return;
+    }
+
+    const remoteMoved = !localRecord.remote_updated_at ||
+      timeOf(remoteRecord.updated_at ?? null) !== timeOf(localRecord.remote_updated_at);
+    if (!remoteMoved) {
+      merged.push(localRecord);
+      return;
+    }
+
+    // Both sides have a version: last writer wins
+    if (timestampOf(localRecord) >= timestampOf(remoteRecord)) {
+      merged.push({ ...localRecord, remote_updated_at: remoteRecord.updated_at });
+      conflicts.push({ local: localRecord, remote: fromRemote, kept: 'local' });
+    } else {
+      merged.push(fromRemote);
+      conflicts.push({ local: localRecord, remote: fromRemote, kept: 'remote' });
+      discarded.push(localRecord.id);
+    }
+  });
+
+  local.forEach(localRecord => {
+    if (remoteIds.has(localRecord.id)) return;
+    // Local-only: keep anything not yet pushed, drop records deleted elsewhere
+    if (isDirty(localRecord, pendingUpserts.has(localRecord.id))) {
+      merged.push({ ...localRecord, synced: false });
+    }
+  });
+
+  // Drop pushes that lost or are no longer needed, and make sure every kept unsynced record is queued
+  const discardedIds = new Set(discarded);
+  const lost = tableChanges.filter(c => discardedIds.has(c.record_id));
+  const queued = new Set(tableChanges.filter(c => !discardedIds.has(c.record_id)).map(c => c.record_id));
+  const missing = merged
+    .filter(record => record.synced === false && !queued.has(record.id))
+    .map(record => buildChange(table, 'upsert', record.id, record));
+  updateOutbox(missing, lost.map(c => c.id));
+
+  return { records: merged, conflicts };
+};
+
+const mergeSessions = (local: Session[], remote: Session[]): SyncResult => {
+  const { records, conflicts } = mergeRecords(local, remote, {
+    table: 'sessions',
+    // Sessions cached from Supabase before the outbox existed carry no flag
+    isDirty: (session, pendingUpsert) => session.synced === false || pendingUpsert,
+    isSameContent: isSameSession
+  });
+
+  records.sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+  return { sessions: records, conflicts };
+};
+
+const mergeCategories = (local: CategoryItem[], remote: CategoryItem[]): CategoryItem[] => {
+  // Categories only ever lived locally before, so anything not confirmed is unsynced
+  const isDirty = (category: CategoryItem, pendingUpsert: boolean) => category.synced !== true || pendingUpsert;
+
+  // A fresh device seeds its own defaults; prefer the account's tiles with the same name.
+  // Once the account has categories, untouched defaults go too (it may have deleted them),
+  // unless this device already tracked time with them.
+  const remoteIds = new Set(remote.map(c => c.id));
+  const remoteNames = new Set(remote.map(c => c.name.toLowerCase()));
+  const inUse = new Set(remote.length > 0 ? loadSessionsLocal().map(s => s.category_id) : []);
+  const dropped = new Set(local
+    .filter(c => !remoteIds.has(c.id) && (
+      remoteNames.has(c.name.toLowerCase()) || (c.seeded && remote.length > 0 && !inUse.has(c.id))
+    ))
+    .map(c => c.id));
+  if (dropped.size > 0) {
+    updateOutbox([], loadOutbox().filter(c => c.table === 'categories' && dropped.has(c.record_id)).map(c => c.id));
+  }
+  // Whatever survives is the user's now
+  const kept = local.filter(c => !dropped.has(c.id)).map(({ seeded, ...c }) => c);
+
+  // Conflicting category edits are settled by last-writer-wins without prompting
+  const { records } = mergeRecords(kept, remote, {
+    table: 'categories',
+    isDirty,
+    isSameContent: isSameCategory
+  });
+
+  return records
+    .map(({ color, ...rest }) => (color ? { ...rest, color } : rest))
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+};
+
+// Apply the user's choice for a conflict reported by loadSessions
+export const resolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+  const chosen = keep === 'local' ? conflict.local : conflict.remote;
+  const resolved = { ...chosen, updated_at: new Date().toISOString() };
+  await saveSession(resolved);
+  return resolved;
 };
 
 export const saveSession = async (session: Session) => {
   // 1. Get current user 
   let userId = session.user_id;
 
-  if (supabase && !userId) {
-    const { data } = await supabase.auth.getUser();
-    userId = data.user?.id;
+  if (!userId) {
+    userId = (await backend.getUserId()) ?? undefined;
   }
 
-  // Update session object with user_id if found
-  const sessionToSave = userId ? { ...session, user_id: userId } : session;
+  // Update session object with user_id if found. The caller's copy may predate the last
+  // push, so the sync base comes from the store.
+  const stored = loadSessionsLocal().find(s => s.id === session.id);
+  const sessionToSave = {
+    ...(userId ? { ...session, user_id: userId } : session),
+    synced: false,
+    remote_updated_at: stored?.remote_updated_at,
+    updated_at: new Date().toISOString()
+  };
 
-  // 2. Save to LocalStorage immediately (optimistic)
-  const currentSessions = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  // 2. Save locally immediately (optimistic)
+  persistSessions([sessionToSave]);
 
-  // Update local cache
-  const updatedSessions = [sessionToSave, ...currentSessions.filter((s: Session) => s.id !== session.id)];
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSessions));
+  // 3. Queue for the backend and try to push right away
+  enqueueChange('sessions', 'upsert', sessionToSave.id, sessionToSave);
+  return flushOutbox();
+};
+
+export const deleteSession = async (sessionId: string) => {
+  // 1. Local
+  persistSessions([], [sessionId]);
+
+  // 2. Remote (queued)
+  enqueueChange('sessions', 'delete', sessionId);
+  return flushOutbox();
+};
+
+// --- Outbox (pending remote changes) ---
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+const outboxListeners = new Set<(pending: PendingChange[]) => void>();
+let flushInFlight: Promise<{ error: BackendError | null }> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Like sessions, the outbox lives in IndexedDB behind a synchronous snapshot, so queuing
+// a change writes one row instead of the whole list. localStorage is the fallback.
+let outboxSnapshot: PendingChange[] | null = null;
+
+const readLegacyOutbox = (): PendingChange[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    // Entries queued before categories were synced have no table
+    return stored
+      ? (JSON.parse(stored) as PendingChange[]).map(c => ({ ...c, table: c.table || 'sessions' }))
+      : [];
+  } catch (e) {
+    console.error("Failed to load outbox", e);
+    return [];
+  }
+};
+
+const writeLegacyOutbox = (outbox: PendingChange[]) => {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  } catch (e) {
+    console.error("Failed to save outbox", e);
+  }
+};
+
+export const loadOutbox = (): PendingChange[] => outboxSnapshot ?? readLegacyOutbox();
+
+const notifyOutbox = (outbox: PendingChange[]) => outboxListeners.forEach(listener => listener(outbox));
+
+// Replace the whole outbox (backend switches, clearing data)
+const saveOutbox = (outbox: PendingChange[]) => {
+  outboxSnapshot = outbox;
+  if (useIndexedDb) replaceOutbox(outbox).catch(e => console.error("Failed to save outbox", e));
+  else writeLegacyOutbox(outbox);
+  notifyOutbox(outbox);
+};
+
+// Write changed/removed entries through to the snapshot and the store. Changed entries
+// keep their place; new ones go to the end.
+const updateOutbox = (changed: PendingChange[], removedIds: string[] = []) => {
+  if (changed.length === 0 && removedIds.length === 0) return;
+  const changedById = new Map(changed.map(c => [c.id, c]));
+  const removed = new Set(removedIds);
+  const next: PendingChange[] = [];
+  loadOutbox().forEach(c => {
+    if (removed.has(c.id)) return;
+    next.push(changedById.get(c.id) ?? c);
+    changedById.delete(c.id);
+  });
+  next.push(...changedById.values());
+  outboxSnapshot = next;
+
+  if (!useIndexedDb) writeLegacyOutbox(next);
+  else {
+    if (changed.length > 0) putChanges(changed).catch(e => console.error("Failed to save outbox", e));
+    if (removedIds.length > 0) deleteChanges(removedIds).catch(e => console.error("Failed to save outbox", e));
+  }
+  notifyOutbox(next);
+};
+
+export const subscribeToOutbox = (listener: (pending: PendingChange[]) => void) => {
+  outboxListeners.add(listener);
+  listener(loadOutbox());
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+const buildChange = (
+  table: SyncTable,
+  op: PendingChange['op'],
+  recordId: string,
+  payload?: PendingChange['payload']
+): PendingChange => {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    table,
+    op,
+    record_id: recordId,
+    payload,
+    attempts: 0,
+    queued_at: now,
+    next_attempt_at: now
+  };
+};
+
+const changeKey = (table: SyncTable, recordId: string) => `${table}:${recordId}`;
 
-  // 3. Sync to Supabase
-  if (supabase && userId) {
-    // Remove local-only properties
-    const { synced, ...remoteSession } = sessionToSave;
+// Queue changes in one write. A newer change to the same record supersedes any queued one.
+const enqueueChanges = (changes: PendingChange[]) => {
+  if (changes.length === 0) return;
+  const keys = new Set(changes.map(c => changeKey(c.table, c.record_id)));
+  const superseded = loadOutbox().filter(c => keys.has(changeKey(c.table, c.record_id))).map(c => c.id);
+  updateOutbox(changes, superseded);
+};
+
+const enqueueChange = (
+  table: SyncTable,
+  op: PendingChange['op'],
+  recordId: string,
+  payload?: PendingChange['payload']
+) => enqueueChanges([buildChange(table, op, recordId, payload)]);
+
+// Flag pushed records as synced, unless they were edited again in the meantime
+const markSynced = (table: SyncTable, recordIds: string[]) => {
+  const pending = new Set(loadOutbox().filter(c => c.table === table).map(c => c.record_id));
+  const ids = new Set(recordIds.filter(id => !pending.has(id)));
+  if (ids.size === 0) return;
+
+  // The backend now holds this copy's updated_at
+  if (table === 'categories') {
+    const current = readCategoriesCache();
+    writeCategoriesCache(current.map(c => ids.has(c.id) ? { ...c, synced: true, remote_updated_at: c.updated_at } : c));
+    return;
+  }
+  persistSessions(loadSessionsLocal()
+    .filter(s => ids.has(s.id))
+    .map(s => ({ ...s, synced: true, remote_updated_at: s.updated_at })));
+};
+
+const scheduleRetry = (outbox: PendingChange[]) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (outbox.length === 0) return;
+
+  const nextAttempt = outbox.reduce((min, c) => Math.min(min, new Date(c.next_attempt_at).getTime()), Infinity);
+  const delay = Math.max(nextAttempt - Date.now(), 0);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+};
+
+const pushChange = async (change: PendingChange, userId: string) => {
+  if (change.op === 'delete') {
+    return backend.remove(change.table, change.record_id);
+  }
+
+  // Remove local-only properties
+  const { synced, remote_updated_at, ...remoteRecord } = change.payload!;
+  return backend.upsert(change.table, { ...remoteRecord, user_id: userId });
+};
+
+// `skipped` means nothing could be attempted (offline or signed out); the online, focus
+// and sign-in handlers trigger the next flush, so no retry timer is needed
+const runFlush = async (force: boolean): Promise<{ error: BackendError | null; skipped?: boolean }> => {
+  if (loadOutbox().length === 0) return { error: null };
+  if (backend.kind !== 'local' && typeof navigator !== 'undefined' && !navigator.onLine) return { error: null, skipped: true };
+
+  const userId = await backend.getUserId();
+  if (!userId) return { error: null, skipped: true };
+  // Until claimLocalData runs for this account, the queue may belong to someone else
+  if (backend.kind !== 'local' && localStorage.getItem(OWNER_KEY) !== userId) return { error: null, skipped: true };
 
-    const { error } = await supabase
-      .from('sessions')
-      .upsert(remoteSession);
+  let lastError: BackendError | null = null;
+  const now = Date.now();
+  // Synced flags are written once at the end rather than per record
+  const pushed: Record<SyncTable, string[]> = { sessions: [], categories: [] };
+
+  for (const change of loadOutbox()) {
+    if (!force && new Date(change.next_attempt_at).getTime() > now) continue;
+
+    const { error } = await pushChange(change, userId);
+
+    // Re-read: the outbox may have changed while the request was in flight
+    const current = loadOutbox().find(c => c.id === change.id);
 
     if (error) {
-      console.error("Supabase save error:", error);
-      return { error };
+      console.error(`Backend ${change.op} error:`, error);
+      lastError = error;
+      if (current) {
+        const attempts = current.attempts + 1;
+        const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+        updateOutbox([{ ...current, attempts, next_attempt_at: new Date(Date.now() + delay).toISOString() }]);
+      }
+      continue;
+    }
+
+    if (current) {
+      updateOutbox([], [change.id]);
+      if (change.op === 'upsert') pushed[change.table].push(change.record_id);
     }
   }
-  return { error: null };
-};
 
-export const deleteSession = async (sessionId: string) => {
-  // 1. Local
-  const currentSessions = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-  const updatedSessions = currentSessions.filter((s: Session) => s.id !== sessionId);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSessions));
+  markSynced('sessions', pushed.sessions);
+  markSynced('categories', pushed.categories);
+  return { error: lastError };
+};
 
-  // 2. Remote
-  if (supabase) {
-    const { error } = await supabase
-      .from('sessions')
-      .delete()
-      .eq('id', sessionId);
-    if (error) console.error("Supabase delete error:", error);
+// Push queued changes to the backend. `force` ignores backoff (e.g. connectivity just returned).
+export const flushOutbox = (force = false): Promise<{ error: BackendError | null }> => {
+  if (!flushInFlight) {
+    flushInFlight = runFlush(force)
+      .then(({ error, skipped }) => {
+        scheduleRetry(skipped ? [] : loadOutbox());
+        return { error };
+      })
+      .finally(() => {
+        flushInFlight = null;
+      });
   }
+  return flushInFlight;
 };
 
-// Deprecated: pure local save for bulk updates (keeping for compatibility if needed, but best to use individual ops or bulk upsert)
+// Replace every local session (merges, backend switches). Prefer persistSessions for targeted writes.
 export const saveSessionsLocal = (sessions: Session[]) => {
+  writeAllSessions(sessions).catch(e => console.error("Failed to save sessions", e));
+}
+
+// Like saveSessionsLocal, but rejects when the write fails
+const writeAllSessions = async (sessions: Session[]) => {
+  sessionSnapshot = sessions;
+  if (useIndexedDb) await replaceAllSessions(sessions);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+};
+
+const defaultCategories = (): CategoryItem[] =>
+  DEFAULT_CATEGORIES.map(c => ({ id: uuidv4(), name: c, icon: 'Activity', seeded: true }));
+
+const readCategoriesCache = (): CategoryItem[] => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    const stored = localStorage.getItem(CATEGORIES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCategoriesCache = (categories: CategoryItem[]) => {
+  try {
+    localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
   } catch (e) {
-    console.error("Failed to save sessions", e);
+    console.error("Failed to save categories", e);
   }
-}
+};
 
 export const loadCategories = (): CategoryItem[] => {
   try {
     const stored = localStorage.getItem(CATEGORIES_KEY);
-    if (!stored) return DEFAULT_CATEGORIES.map(c => ({ id: uuidv4(), name: c, icon: 'Activity' }));
-
-    const parsed = JSON.parse(stored);
+    if (!stored) return defaultCategories();
 
-    // Migration: Handle legacy string[]
-    if (parsed.length > 0 && typeof parsed[0] === 'string') {
-      return (parsed as string[]).map(c => ({
-        id: uuidv4(),
-        name: c,
-        icon: 'Activity'
-      }));
-    }
+    // Legacy shapes are upgraded by the schema migrations before first render, but a
+    // rollback holds those back, so plain names can still turn up here
+    const parsed: (CategoryItem | string)[] = JSON.parse(stored);
+    if (!parsed.some(c => typeof c === 'string')) return parsed as CategoryItem[];
 
-    return parsed as CategoryItem[];
+    // Persist the upgrade so the generated ids stay stable
+    const upgraded = parsed.map(c => typeof c === 'string' ? { id: uuidv4(), name: c, icon: 'Activity' } : c);
+    writeCategoriesCache(upgraded);
+    return upgraded;
   } catch (e) {
-    return DEFAULT_CATEGORIES.map(c => ({ id: uuidv4(), name: c, icon: 'Activity' }));
+    return defaultCategories();
+  }
+};
+
+// Remote (Async) - merges the backend's categories into the local list
+export const syncCategories = async (): Promise<CategoryItem[]> => {
+  const { data, error } = await backend.fetchAll<CategoryItem>('categories', { column: 'position', ascending: true });
+
+  if (!error && data) {
+    const merged = mergeCategories(loadCategories(), data);
+    writeCategoriesCache(merged);
+    localStorage.setItem(CATEGORIES_SYNCED_KEY, 'true');
+    flushOutbox();
+    return merged;
+  } else if (error) {
+    console.error("Backend categories load error:", error);
   }
+
+  return loadCategories();
 };
 
+// Persist the full list locally and queue remote upserts/deletes for what changed.
+// Until the first category sync, upserts wait: a fresh device's seeded defaults would
+// otherwise reach the account before mergeCategories can drop them.
+// The merge queues whatever is still unsynced afterwards.
 export const saveCategories = (categories: CategoryItem[]) => {
-  try {
-    localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
-  } catch (e) {
-    console.error("Failed to save categories", e);
+  const holdUpserts = backend.kind !== 'local' && !localStorage.getItem(CATEGORIES_SYNCED_KEY);
+  const previous = readCategoriesCache();
+  const previousById = new Map(previous.map(c => [c.id, c]));
+  const now = new Date().toISOString();
+  const changes: PendingChange[] = [];
+
+  const next = categories.map((category, position) => {
+    const candidate = { ...category, position };
+    const prev = previousById.get(category.id);
+    if (prev && isSameCategory(prev, candidate)) return prev;
+
+    // Editing a seeded default makes it the user's own
+    const { seeded, ...edited } = candidate;
+    const updated = { ...(prev ? edited : candidate), synced: false, updated_at: now };
+    if (!holdUpserts) changes.push(buildChange('categories', 'upsert', updated.id, updated));
+    return updated;
+  });
+
+  const nextIds = new Set(next.map(c => c.id));
+  previousById.forEach((_, id) => {
+    if (!nextIds.has(id)) changes.push(buildChange('categories', 'delete', id));
+  });
+
+  writeCategoriesCache(next);
+  enqueueChanges(changes);
+  if (changes.length > 0) flushOutbox();
+};
+
+// Point sessions at CategoryItem ids by matching the stored name
+const linkSessions = (source: Session[], categories: CategoryItem[]) => {
+  const byId = new Set(categories.map(c => c.id));
+  const byName = new Map(categories.map(c => [c.name.toLowerCase(), c]));
+  const relinked: Session[] = [];
+
+  const sessions = source.map(session => {
+    if (session.category_id && byId.has(session.category_id)) return session;
+
+    const match = byName.get(session.category.toLowerCase());
+    if (!match || match.id === session.category_id) return session;
+
+    const linked = { ...session, category_id: match.id, synced: false, updated_at: new Date().toISOString() };
+    relinked.push(linked);
+    return linked;
+  });
+
+  return { sessions, relinked };
+};
+
+// Re-links sessions whose id no longer resolves (e.g. a duplicate default tile replaced
+// during sync, or a category recreated after deletion). Returns null when nothing changed.
+export const linkSessionCategories = (categories: CategoryItem[]): Session[] | null => {
+  const { sessions, relinked } = linkSessions(loadSessionsLocal(), categories);
+  if (relinked.length === 0) return null;
+
+  persistSessions(relinked);
+  enqueueChanges(relinked.map(session => buildChange('sessions', 'upsert', session.id, session)));
+  flushOutbox();
+  return sessions;
+};
+
+// Re-point every session of one category at another (used when merging an archived category)
+export const reassignSessionsCategory = (fromId: string, to: CategoryItem): Session[] => {
+  const now = new Date().toISOString();
+  const moved: Session[] = [];
+
+  const sessions = loadSessionsLocal().map(session => {
+    if (session.category_id !== fromId) return session;
+    const updated = { ...session, category: to.name, category_id: to.id, synced: false, updated_at: now };
+    moved.push(updated);
+    return updated;
+  });
+
+  if (moved.length > 0) {
+    persistSessions(moved);
+    enqueueChanges(moved.map(session => buildChange('sessions', 'upsert', session.id, session)));
+    flushOutbox();
   }
+  return sessions;
 };
 
 export const loadTheme = (): 'light' | 'dark' => {
@@ -147,60 +746,495 @@ export const saveTheme = (theme: 'light' | 'dark') => {
   localStorage.setItem(THEME_KEY, theme);
 };
 
-export const createSession = (category: Category, userId?: string): Session => {
+// Global parallel tracking: when on, starting any tracker leaves the others running
+export const loadConcurrentMode = (): boolean => {
+  try {
+    return localStorage.getItem(CONCURRENT_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveConcurrentMode = (enabled: boolean) => {
+  localStorage.setItem(CONCURRENT_KEY, String(enabled));
+};
+
+// Hour (0-23) at which a day begins for the timeline, statistics and exports
+export const loadDayStartHour = (): number => {
+  try {
+    const hour = Number(localStorage.getItem(DAY_START_KEY));
+    return Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 0;
+  } catch {
+    return 0;
+  }
+};
+
+export const saveDayStartHour = (hour: number) => {
+  localStorage.setItem(DAY_START_KEY, String(hour));
+};
+
+export const createSession = (category: CategoryItem, userId?: string): Session => {
   return {
     id: uuidv4(),
     user_id: userId,
-    category,
+    category: category.name,
+    category_id: category.id,
     start_time: new Date().toISOString(),
     end_time: null,
     is_active: true,
-    synced: false
+    synced: false,
+    updated_at: new Date().toISOString()
   };
 };
 
-export const exportData = (sessions: Session[]): string => {
+const DEFAULT_FORMATTING: Required<ExportFormatting> = {
+  timestamp: (date) => date.toISOString(),
+  minutes: (ms) => Math.round(ms / 60000)
+};
+
+export const exportData = (
+  sessions: Session[],
+  categories: CategoryItem[] = [],
+  formatting: ExportFormatting = {}
+): string => {
+  const { timestamp, minutes } = { ...DEFAULT_FORMATTING, ...formatting };
   return JSON.stringify(sessions.map(s => ({
-    category: s.category,
-    start: s.start_time,
-    end: s.end_time || "ACTIVE",
-    duration_minutes: s.end_time
-      ? Math.round((new Date(s.end_time).getTime() - new Date(s.start_time).getTime()) / 60000)
-      : "ONGOING"
+    category: getCategoryName(s, categories),
+    start: timestamp(new Date(s.start_time)),
+    end: s.end_time ? timestamp(new Date(s.end_time)) : "ACTIVE",
+    duration_minutes: s.end_time ? minutes(trackedMs(s)) : "ONGOING",
+    notes: s.notes || "",
+    tags: s.tags ?? []
   })), null, 2);
 };
 
-export const exportToCSV = (sessions: Session[]) => {
-  const headers = ["Category", "Start Time", "End Time", "Duration (Minutes)", "Status"];
+const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const buildCSV = (
+  sessions: Session[],
+  categories: CategoryItem[] = [],
+  formatting: ExportFormatting = {}
+): string => {
+  const { timestamp, minutes } = { ...DEFAULT_FORMATTING, ...formatting };
+  const headers = ["Category", "Start Time", "End Time", "Duration (Minutes)", "Status", "Notes", "Tags"];
   const rows = sessions.map(s => {
     const start = new Date(s.start_time);
     const end = s.end_time ? new Date(s.end_time) : null;
-    const duration = end
-      ? Math.round((end.getTime() - start.getTime()) / 60000)
-      : 0;
 
     return [
-      `"${s.category}"`,
-      `"${start.toLocaleString()}"`,
-      `"${end ? end.toLocaleString() : ''}"`,
-      `"${end ? duration : ''}"`,
-      `"${s.is_active ? 'Active' : 'Completed'}"`
+      csvField(getCategoryName(s, categories)),
+      csvField(timestamp(start)),
+      csvField(end ? timestamp(end) : ''),
+      csvField(end ? minutes(trackedMs(s)) : ''),
+      csvField(s.is_active ? 'Active' : 'Completed'),
+      csvField(s.notes || ''),
+      csvField(formatTags(s.tags))
     ].join(",");
   });
 
-  const csvContent = "data:text/csv;charset=utf-8,"
-    + [headers.join(","), ...rows].join("\n");
+  return [headers.join(","), ...rows].join("\n");
+};
+
+// iCalendar UTC date-time, e.g. 20240131T083000Z
+const toICSDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeICSText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
 
-  const encodedUri = encodeURI(csvContent);
+// RFC 5545 wants content lines folded at 75 octets of UTF-8; continuation lines start with a space
+// (the space included). Iterating by code point keeps surrogate pairs together.
+const utf8 = new TextEncoder();
+const foldICSLine = (line: string) => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+// One VEVENT per session. Multi-day sessions stay a single event; still-active sessions
+// end at export time and are marked tentative so calendars show them as provisional.
+export const buildICS = (sessions: Session[], categories: CategoryItem[] = []): string => {
+  const now = new Date();
+  const stamp = toICSDate(now);
+
+  const events = sessions.map(s => {
+    const end = s.end_time ? new Date(s.end_time) : now;
+    return [
+      'BEGIN:VEVENT',
+      `UID:${s.id}@chronopulse`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toICSDate(new Date(s.start_time))}`,
+      `DTEND:${toICSDate(end)}`,
+      `SUMMARY:${escapeICSText(getCategoryName(s, categories))}`,
+      ...(s.notes ? [`DESCRIPTION:${escapeICSText(s.notes)}`] : []),
+      ...(s.tags?.length ? [`CATEGORIES:${s.tags.map(escapeICSText).join(',')}`] : []),
+      `STATUS:${s.is_active ? 'TENTATIVE' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ChronoPulse//Time Tracker//EN',
+    'CALSCALE:GREGORIAN',
+    ...events.flat(),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
   const link = document.createElement("a");
-  link.setAttribute("href", encodedUri);
-  link.setAttribute("download", `chronopulse_export_${new Date().toISOString().slice(0, 10)}.csv`);
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- Backup & restore ---
+
+const BACKUP_FORMAT_VERSION = 1;
+
+export const createBackup = (): BackupFile => ({
+  format: 'chronopulse-backup',
+  version: BACKUP_FORMAT_VERSION,
+  schema_version: SCHEMA_VERSION,
+  exported_at: new Date().toISOString(),
+  // Local sync flags mean nothing on another install
+  sessions: loadSessionsLocal().map(({ synced, remote_updated_at, ...s }) => s),
+  categories: readCategoriesCache().map(({ synced, remote_updated_at, seeded, ...c }) => c),
+  settings: { theme: loadTheme(), dayStartHour: loadDayStartHour(), concurrentMode: loadConcurrentMode() }
+});
+
+export const downloadBackup = () => {
+  downloadFile(
+    `chronopulse_backup_${new Date().toISOString().slice(0, 10)}.json`,
+    JSON.stringify(createBackup(), null, 2),
+    "application/json"
+  );
+};
+
+// Throws with a readable message when the file is not a usable backup
+export const parseBackup = (text: string): BackupFile => {
+  let parsed: BackupFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!parsed || parsed.format !== 'chronopulse-backup') {
+    throw new Error("This is not a ChronoPulse backup file.");
+  }
+  if (parsed.version > BACKUP_FORMAT_VERSION || parsed.schema_version > SCHEMA_VERSION) {
+    throw new Error("This backup was made by a newer version of the app.");
+  }
+  if (!Array.isArray(parsed.sessions) || !Array.isArray(parsed.categories)) {
+    throw new Error("The backup is missing sessions or categories.");
+  }
+
+  if (typeof parsed.exported_at !== 'string' || isNaN(new Date(parsed.exported_at).getTime())) {
+    throw new Error("The backup has no valid export date.");
+  }
+
+  const isValidSession = (s: Session) =>
+    !!s &&
+    typeof s.id === 'string' &&
+    typeof s.category === 'string' &&
+    !isNaN(new Date(s.start_time).getTime()) &&
+    (s.end_time === null || !isNaN(new Date(s.end_time).getTime()));
+  if (!parsed.sessions.every(isValidSession)) {
+    throw new Error("The backup contains malformed sessions.");
+  }
+
+  const isValidCategory = (c: CategoryItem) =>
+    !!c &&
+    typeof c.id === 'string' &&
+    typeof c.name === 'string';
+  if (!parsed.categories.every(isValidCategory)) {
+    throw new Error("The backup contains malformed categories.");
+  }
+
+  return parsed;
+};
+
+// Work out the resulting data without writing anything
+const planRestore = (backup: BackupFile, mode: RestoreMode) => {
+  const currentSessions = loadSessionsLocal();
+  const currentCategories = loadCategories();
+  const sessionsById = new Map(currentSessions.map(s => [s.id, s]));
+  const categoriesById = new Map(currentCategories.map(c => [c.id, c]));
+
+  // Merging: a backup category whose name already exists folds into the existing one
+  const categoryIdMap = new Map<string, string>();
+  const byName = new Map(currentCategories.map(c => [c.name.toLowerCase(), c]));
+  const incomingCategories = mode === 'merge'
+    ? backup.categories.filter(c => {
+      const existing = byName.get(c.name.toLowerCase());
+      if (existing && existing.id !== c.id) {
+        categoryIdMap.set(c.id, existing.id);
+        return false;
+      }
+      return true;
+    })
+    : backup.categories;
+
+  const incomingSessions = backup.sessions.map(s => {
+    const mapped = s.category_id && categoryIdMap.get(s.category_id);
+    return mapped ? { ...s, category_id: mapped } : s;
+  });
+
+  // In merge mode the newer version of a record wins
+  const pick = <T extends Session | CategoryItem>(current: T | undefined, incoming: T) =>
+    !current || mode === 'replace' || timestampOf(incoming) > timestampOf(current) ? incoming : current;
+
+  const changedSessions = incomingSessions.filter(s => {
+    const current = sessionsById.get(s.id);
+    return pick(current, s) === s && !(current && isSameSession(current, s));
+  });
+  const incomingSessionIds = new Set(incomingSessions.map(s => s.id));
+  const removedSessionIds = mode === 'replace'
+    ? currentSessions.filter(s => !incomingSessionIds.has(s.id)).map(s => s.id)
+    : [];
+
+  const mergedCategories = mode === 'replace'
+    ? incomingCategories
+    : [
+      ...currentCategories.map(c => {
+        const incoming = incomingCategories.find(i => i.id === c.id);
+        return incoming ? pick(c, incoming) : c;
+      }),
+      ...incomingCategories.filter(c => !categoriesById.has(c.id))
+    ];
+  const mergedIds = new Set(mergedCategories.map(c => c.id));
+
+  // Only a replace takes the backup's settings; older backups lack some, which stay as they are
+  const incoming: Partial<BackupFile['settings']> = mode === 'replace' && backup.settings ? backup.settings : {};
+  const hour = incoming.dayStartHour;
+  const settings = {
+    theme: incoming.theme || loadTheme(),
+    dayStartHour: Number.isInteger(hour) && hour! >= 0 && hour! < 24 ? hour! : loadDayStartHour(),
+    concurrentMode: typeof incoming.concurrentMode === 'boolean' ? incoming.concurrentMode : loadConcurrentMode()
+  };
+
+  const summary: RestoreSummary = {
+    sessionsAdded: changedSessions.filter(s => !sessionsById.has(s.id)).length,
+    sessionsUpdated: changedSessions.filter(s => sessionsById.has(s.id)).length,
+    sessionsRemoved: removedSessionIds.length,
+    categoriesAdded: mergedCategories.filter(c => !categoriesById.has(c.id)).length,
+    categoriesUpdated: mergedCategories.filter(c => {
+      const current = categoriesById.get(c.id);
+      return current && !isSameCategory(current, { ...c, position: current.position });
+    }).length,
+    categoriesRemoved: currentCategories.filter(c => !mergedIds.has(c.id)).length,
+    themeChanged: settings.theme !== loadTheme(),
+    dayStartChanged: settings.dayStartHour !== loadDayStartHour(),
+    concurrentModeChanged: settings.concurrentMode !== loadConcurrentMode()
+  };
+
+  return { changedSessions, removedSessionIds, categories: mergedCategories, settings, summary };
+};
+
+export const summarizeRestore = (backup: BackupFile, mode: RestoreMode): RestoreSummary =>
+  planRestore(backup, mode).summary;
+
+// Apply a backup locally and queue the changes for the backend.
+// Categories and settings are returned for the caller to apply (they persist through App state).
+export const restoreBackup = (backup: BackupFile, mode: RestoreMode) => {
+  const { changedSessions, removedSessionIds, categories, settings } = planRestore(backup, mode);
+  const now = new Date().toISOString();
+
+  const restored = changedSessions.map(s => ({ ...s, synced: false, updated_at: now }));
+  persistSessions(restored, removedSessionIds);
+  enqueueChanges([
+    ...restored.map(s => buildChange('sessions', 'upsert', s.id, s)),
+    ...removedSessionIds.map(id => buildChange('sessions', 'delete', id))
+  ]);
+  flushOutbox();
+
+  return {
+    sessions: loadSessionsLocal(),
+    categories,
+    ...settings
+  };
+};
+
+// --- Schema migrations ---
+
+interface LocalData {
+  sessions: Session[];
+  categories: unknown[] | null; // Raw cache contents; shape depends on the version
+  theme: string | null;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (data: LocalData) => LocalData;
+}
+
+interface MigrationBackup {
+  version: number;
+  created_at: string;
+  data: LocalData;
+}
+
+// Append new steps here; never edit or reorder a shipped one
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Upgrade legacy string[] categories to CategoryItem[]',
+    up: data => ({
+      ...data,
+      categories: data.categories && data.categories.map(c =>
+        typeof c === 'string' ? { id: uuidv4(), name: c, icon: 'Activity' } : c
+      )
+    })
+  },
+  {
+    version: 2,
+    description: 'Reference categories by id in sessions',
+    up: data => ({
+      ...data,
+      sessions: data.categories
+        ? linkSessions(data.sessions, data.categories as CategoryItem[]).sessions
+        : data.sessions
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const readLocalData = (): LocalData => {
+  const stored = localStorage.getItem(CATEGORIES_KEY);
+  return {
+    sessions: loadSessionsLocal(),
+    categories: stored ? JSON.parse(stored) : null,
+    theme: localStorage.getItem(THEME_KEY)
+  };
+};
+
+const writeLocalData = async (data: LocalData, version: number) => {
+  await writeAllSessions(data.sessions);
+  if (data.categories) writeCategoriesCache(data.categories as CategoryItem[]);
+  else localStorage.removeItem(CATEGORIES_KEY);
+  if (data.theme) localStorage.setItem(THEME_KEY, data.theme);
+  else localStorage.removeItem(THEME_KEY);
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+};
+
+// Backups can be large, so they go to IndexedDB when it is available
+const saveMigrationBackup = async (backup: MigrationBackup | undefined) => {
+  if (useIndexedDb) {
+    await writeMeta(MIGRATION_BACKUP_KEY, backup);
+    return;
+  }
+  if (backup) localStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+  else localStorage.removeItem(MIGRATION_BACKUP_KEY);
+};
+
+export const loadMigrationBackup = async (): Promise<MigrationBackup | undefined> => {
+  try {
+    if (useIndexedDb) return await readMeta<MigrationBackup>(MIGRATION_BACKUP_KEY);
+    const stored = localStorage.getItem(MIGRATION_BACKUP_KEY);
+    return stored ? JSON.parse(stored) : undefined;
+  } catch (e) {
+    console.error("Failed to read migration backup", e);
+    return undefined;
+  }
+};
+
+export const loadSchemaVersion = (): number => {
+  const stored = Number(localStorage.getItem(SCHEMA_VERSION_KEY));
+  return Number.isInteger(stored) ? stored : 0;
+};
+
+// Bring local data up to SCHEMA_VERSION, keeping a copy of the pre-migration data
+const runMigrations = async () => {
+  const from = loadSchemaVersion();
+  if (from >= SCHEMA_VERSION) return;
+  // After a rollback, wait for a build that ships newer migrations
+  if (Number(localStorage.getItem(MIGRATION_HOLD_KEY)) >= SCHEMA_VERSION) return;
+
+  const original = readLocalData();
+  const isFreshInstall = original.sessions.length === 0 && !original.categories;
+  if (isFreshInstall) {
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+    return;
+  }
+
+  try {
+    await saveMigrationBackup({ version: from, created_at: new Date().toISOString(), data: original });
+  } catch (e) {
+    // Never migrate without a way back
+    console.error("Failed to back up data, skipping migrations", e);
+    return;
+  }
+
+  let data = original;
+  let version = from;
+  for (const migration of MIGRATIONS.filter(m => m.version > from)) {
+    try {
+      data = migration.up(data);
+      version = migration.version;
+    } catch (e) {
+      console.error(`Migration ${migration.version} (${migration.description}) failed`, e);
+      break;
+    }
+  }
+
+  if (version > from) {
+    // The backup stays in place, so a failed write can still be rolled back
+    await writeLocalData(data, version).catch(e => console.error("Failed to save migrated data", e));
+  }
+};
+
+// Put local data back exactly as it was before the last migration run.
+// The current migrations are not retried until a newer SCHEMA_VERSION ships.
+export const rollbackMigration = async (): Promise<boolean> => {
+  const backup = await loadMigrationBackup();
+  if (!backup) return false;
+
+  try {
+    await writeLocalData(backup.data, backup.version);
+  } catch (e) {
+    // Keep the backup so the rollback can be retried
+    console.error("Failed to restore pre-migration data", e);
+    return false;
+  }
+  localStorage.setItem(MIGRATION_HOLD_KEY, String(SCHEMA_VERSION));
+  await saveMigrationBackup(undefined);
+  return true;
+};
+
+// Call once before the first render
+export const initStorage = async () => {
+  await initSessionStore();
+  await runMigrations();
 };
 
 export const clearAllData = () => {
+  saveSessionsLocal([]);
   localStorage.removeItem(STORAGE_KEY);
   localStorage.removeItem(CATEGORIES_KEY);
+  localStorage.removeItem(CATEGORIES_SYNCED_KEY);
+  saveOutbox([]);
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { StorageBackend } from './storageBackend';
+import { supabase } from './supabaseClient';
+
+export const supabaseBackend: StorageBackend = {
+  kind: 'supabase',
+
+  getUserId: async () => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  },
+
+  fetchAll: async <T>(table: string, order: { column: string; ascending: boolean }) => {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order(order.column, { ascending: order.ascending });
+    return { data: data as T[] | null, error };
+  },
+
+  upsert: async (table, record) => {
+    const { error } = await supabase
+      .from(table)
+      .upsert(record);
+    return { error };
+  },
+
+  remove: async (table, id) => {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', id);
+    return { error };
+  }
+};
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = 'https://yemfbvzmdsgfvlqizfho.supabase.co';
-const supabaseAnonKey = 'sb_publishable_EWCFPqkFZMq6liSOhenoIA_pXjxPMkY';
+// Point VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY at a local stack (`supabase start`) for development
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://yemfbvzmdsgfvlqizfho.supabase.co';
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'sb_publishable_EWCFPqkFZMq6liSOhenoIA_pXjxPMkY';
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
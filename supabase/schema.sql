@@ -28,6 +28,53 @@ create policy "Users can update their own sessions"
 on public.sessions for update 
 using (auth.uid() = user_id);
 
+create policy "Users can delete their own sessions" 
+on public.sessions for delete 
+using (auth.uid() = user_id);
+
 -- Indexes for performance
 create index sessions_user_id_idx on public.sessions(user_id);
-create index sessions_start_time_idx on public.sessions(start_time);
\ No newline at end of file
+create index sessions_start_time_idx on public.sessions(start_time);
+
+-- Create categories table
+create table if not exists public.categories (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  name text not null,
+  icon text not null default 'Activity',
+  color text,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.categories enable row level security;
+
+create policy "Users can view their own categories" 
+on public.categories for select 
+using (auth.uid() = user_id);
+
+create policy "Users can insert their own categories" 
+on public.categories for insert 
+with check (auth.uid() = user_id);
+
+create policy "Users can update their own categories" 
+on public.categories for update 
+using (auth.uid() = user_id);
+
+create policy "Users can delete their own categories" 
+on public.categories for delete 
+using (auth.uid() = user_id);
+
+create index categories_user_id_idx on public.categories(user_id);
+
+-- Migrations (safe to re-run on existing projects)
+alter table public.sessions add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+alter table public.sessions add column if not exists category_id uuid;
+create index if not exists sessions_category_id_idx on public.sessions(category_id);
+alter table public.categories add column if not exists archived boolean not null default false;
+alter table public.sessions add column if not exists notes text;
+alter table public.sessions add column if not exists tags text[] not null default '{}';
+create index if not exists sessions_tags_idx on public.sessions using gin(tags);
+alter table public.categories add column if not exists concurrent boolean not null default false;
+alter table public.sessions add column if not exists pauses jsonb not null default '[]'::jsonb;
@@ -3,6 +3,15 @@ export interface CategoryItem {
   name: string;
   icon: string;
   color?: string;
+  position?: number; // Tile order
+  archived?: boolean; // Hidden from tiles, still resolvable for history
+  concurrent?: boolean; // Runs alongside other trackers instead of stopping them
+  user_id?: string; // Supabase Owner UUID
+  synced?: boolean; // Local state flag
+  remote_updated_at?: string; // Local state: the backend's updated_at this copy last synced with
+  seeded?: boolean; // Local state: an untouched default from a fresh install, not yet synced
+  created_at?: string;
+  updated_at?: string;
 }
 
 export type Category = string; // Legacy support for Session.category (name)
@@ -10,12 +19,29 @@ export type Category = string; // Legacy support for Session.category (name)
 export interface Session {
   id: string;
   user_id?: string; // Supabase Owner UUID
-  category: Category;
+  category: Category; // Name snapshot, kept for legacy rows
+  category_id?: string; // CategoryItem.id
   start_time: string; // ISO string
   end_time: string | null; // ISO string or null if active
   is_active: boolean;
+  notes?: string;
+  tags?: string[]; // Lowercase, without the leading '#'
+  pauses?: PauseInterval[]; // Excluded from tracked time; an open pause means paused now
   synced?: boolean; // Local state flag
+  remote_updated_at?: string; // Local state: the backend's updated_at this copy last synced with
   created_at?: string;
+  updated_at?: string; // ISO string, used for last-writer-wins merges
+}
+
+export interface PauseInterval {
+  start: string; // ISO string
+  end: string | null; // ISO string or null while paused
+}
+
+// Neighbour edits that make room for a saved session
+export interface OverlapFix {
+  changed: Session[];
+  removed: string[];
 }
 
 export interface PulseState {
@@ -26,4 +52,62 @@ export interface PulseState {
 export interface DailySummary {
   totalDuration: number; // in milliseconds
   categoryBreakdown: Record<Category, number>;
-}
\ No newline at end of file
+}
+
+export type SyncTable = 'sessions' | 'categories';
+
+export interface PendingChange {
+  id: string;
+  table: SyncTable;
+  op: 'upsert' | 'delete';
+  record_id: string;
+  payload?: Session | CategoryItem; // Snapshot for upserts
+  attempts: number;
+  queued_at: string; // ISO string
+  next_attempt_at: string; // ISO string
+}
+
+export interface SyncConflict {
+  local: Session;
+  remote: Session;
+  kept: 'local' | 'remote'; // Version applied automatically by last-writer-wins
+}
+
+export interface SyncResult {
+  sessions: Session[];
+  conflicts: SyncConflict[];
+}
+
+export interface BackupFile {
+  format: 'chronopulse-backup';
+  version: number; // Backup file format version
+  schema_version: number; // Local data schema at export time
+  exported_at: string; // ISO string
+  sessions: Session[];
+  categories: CategoryItem[];
+  settings: {
+    theme: 'light' | 'dark';
+    dayStartHour?: number; // Missing from backups made before these settings existed
+    concurrentMode?: boolean;
+  };
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreSummary {
+  sessionsAdded: number;
+  sessionsUpdated: number;
+  sessionsRemoved: number;
+  categoriesAdded: number;
+  categoriesUpdated: number;
+  categoriesRemoved: number;
+  themeChanged: boolean;
+  dayStartChanged: boolean;
+  concurrentModeChanged: boolean;
+}
+
+// How exporters render times and durations; omitted fields keep each exporter's default
+export interface ExportFormatting {
+  timestamp?: (date: Date) => string;
+  minutes?: (ms: number) => number | string;
+}
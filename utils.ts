@@ -1,6 +1,263 @@
+import { CategoryItem, Session, PauseInterval, OverlapFix } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { startOfDay, addDays, subDays, setHours } from 'date-fns';
+
 export const formatDuration = (totalMinutes: number) => {
     const hours = Math.floor(totalMinutes / 60);
     const minutes = Math.round(totalMinutes % 60);
     if (hours === 0) return `${minutes}m`;
     return `${hours}h ${minutes}m`;
 };
+
+const COLORS = [
+    '#6366f1', // Indigo
+    '#ec4899', // Pink
+    '#10b981', // Emerald
+    '#f59e0b', // Amber
+    '#3b82f6', // Blue
+    '#8b5cf6', // Violet
+    '#f43f5e', // Rose
+    '#14b8a6', // Teal
+    '#f97316', // Orange
+];
+
+export const getColor = (str: string) => {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        hash = str.charCodeAt(i) + ((hash << 5) - hash);
+    }
+    const index = Math.abs(hash % COLORS.length);
+    return COLORS[index];
+};
+
+// Sessions point at categories by id; the stored name is only a fallback for legacy/orphaned rows
+export const findCategory = (session: Session, categories: CategoryItem[]) =>
+    categories.find(c => c.id === session.category_id) ||
+    categories.find(c => c.name === session.category);
+
+export const getCategoryName = (session: Session, categories: CategoryItem[]) =>
+    findCategory(session, categories)?.name ?? session.category;
+
+// Stable grouping key for charts: category id when resolvable, otherwise the stored name
+export const getCategoryKey = (session: Session, categories: CategoryItem[]) =>
+    findCategory(session, categories)?.id ?? session.category;
+
+export const isPaused = (session: Session) => !!session.pauses?.some(p => !p.end);
+
+// Time within [from, to] (epoch ms) that the session spent paused
+export const pausedMsBetween = (session: Session, from: number, to: number, now = Date.now()) =>
+    (session.pauses ?? []).reduce((sum, p) => {
+        const start = Math.max(new Date(p.start).getTime(), from);
+        const end = Math.min(p.end ? new Date(p.end).getTime() : now, to);
+        return sum + Math.max(0, end - start);
+    }, 0);
+
+// Tracked time in ms with pauses left out, optionally clipped to [from, to]
+export const trackedMs = (session: Session, from = -Infinity, to = Infinity, now = Date.now()) => {
+    const start = Math.max(new Date(session.start_time).getTime(), from);
+    const end = Math.min(session.end_time ? new Date(session.end_time).getTime() : now, to);
+    if (end <= start) return 0;
+    return end - start - pausedMsBetween(session, start, end, now);
+};
+
+// The stretches a session was actually running, pauses cut out
+export const runningSpans = (session: Session, now = Date.now()): { start: number; end: number }[] => {
+    const spans: { start: number; end: number }[] = [];
+    const end = session.end_time ? new Date(session.end_time).getTime() : now;
+    let cursor = new Date(session.start_time).getTime();
+    [...(session.pauses ?? [])]
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+        .forEach(p => {
+            const pauseStart = Math.min(new Date(p.start).getTime(), end);
+            if (pauseStart > cursor) spans.push({ start: cursor, end: pauseStart });
+            cursor = Math.max(cursor, p.end ? new Date(p.end).getTime() : end);
+        });
+    if (end > cursor) spans.push({ start: cursor, end });
+    return spans;
+};
+
+// Stop a session at `at`, closing a pause that is still open
+export const endSession = (session: Session, at: string): Session => ({
+    ...session,
+    end_time: at,
+    is_active: false,
+    ...(session.pauses && { pauses: session.pauses.map(p => p.end ? p : { ...p, end: at }) })
+});
+
+// Cut a session in two at `at`; pauses are divided between the halves.
+// The second half gets a new id and, optionally, a different category.
+export const splitSession = (session: Session, at: string, category?: CategoryItem): [Session, Session] => {
+    const cut = new Date(at).getTime();
+    const pauses = session.pauses ?? [];
+    const endsAfterCut = (p: PauseInterval) => !p.end || new Date(p.end).getTime() > cut;
+    const startsBeforeCut = (p: PauseInterval) => new Date(p.start).getTime() < cut;
+
+    const first: Session = {
+        ...session,
+        end_time: at,
+        is_active: false,
+        pauses: pauses.filter(startsBeforeCut).map(p => endsAfterCut(p) ? { ...p, end: at } : p)
+    };
+    const second: Session = {
+        ...session,
+        id: uuidv4(),
+        start_time: at,
+        created_at: new Date().toISOString(),
+        pauses: pauses.filter(endsAfterCut).map(p => startsBeforeCut(p) ? { ...p, start: at } : p),
+        ...(category && { category: category.name, category_id: category.id })
+    };
+    return [first, second];
+};
+
+// Join two sessions of the same category into the earlier one. The gap between
+// them becomes a pause so tracked time is unchanged.
+export const joinSessions = (a: Session, b: Session): Session => {
+    const [earlier, later] = new Date(a.start_time) <= new Date(b.start_time) ? [a, b] : [b, a];
+    const gap: PauseInterval[] = earlier.end_time && new Date(earlier.end_time) < new Date(later.start_time)
+        ? [{ start: earlier.end_time, end: later.start_time }]
+        : [];
+    const notes = [earlier.notes, later.notes].filter(Boolean).join('\n');
+    const tags = Array.from(new Set([...(earlier.tags ?? []), ...(later.tags ?? [])]));
+
+    // Keep whichever ends last, so a session containing the other loses no time
+    const last = spanOf(earlier).end > spanOf(later).end ? earlier : later;
+
+    return {
+        ...earlier,
+        end_time: last.end_time,
+        is_active: last.is_active,
+        pauses: [...(earlier.pauses ?? []), ...gap, ...(later.pauses ?? [])],
+        ...(notes && { notes }),
+        ...(tags.length > 0 && { tags })
+    };
+};
+
+// Active sessions to stop when a tracker for `category` starts.
+// Concurrent trackers never stop, and are never stopped by, other trackers.
+export const sessionsToStop = (
+    sessions: Session[],
+    category: CategoryItem,
+    categories: CategoryItem[],
+    concurrentMode: boolean
+): Session[] => {
+    if (concurrentMode || category.concurrent) return [];
+    return sessions.filter(s => s.is_active && !findCategory(s, categories)?.concurrent);
+};
+
+export const getCategoryColor = (category: CategoryItem | undefined, fallbackLabel: string) =>
+    category?.color || getColor(category?.name ?? fallbackLabel);
+
+// "#Client-A, deep work" -> ['client-a', 'deep', 'work']
+export const parseTags = (input: string): string[] =>
+    Array.from(new Set(
+        input.split(/[\s,]+/)
+            .map(t => t.replace(/^#+/, '').trim().toLowerCase())
+            .filter(Boolean)
+    ));
+
+export const formatTags = (tags: string[] = []) => tags.map(t => `#${t}`).join(' ');
+
+// Start and end in epoch ms; running sessions end now
+export const spanOf = (session: Session, now = Date.now()) => ({
+    start: new Date(session.start_time).getTime(),
+    end: session.end_time ? new Date(session.end_time).getTime() : now
+});
+
+// Other sessions whose time intersects `session`, oldest first.
+// Concurrent activities are meant to overlap, so they never count.
+export const findOverlaps = (session: Session, sessions: Session[], categories: CategoryItem[]): Session[] => {
+    if (findCategory(session, categories)?.concurrent) return [];
+    const span = spanOf(session);
+    return sessions
+        .filter(other => {
+            if (other.id === session.id || findCategory(other, categories)?.concurrent) return false;
+            const otherSpan = spanOf(other);
+            return otherSpan.start < span.end && otherSpan.end > span.start;
+        })
+        .sort((a, b) => spanOf(a).start - spanOf(b).start);
+};
+
+// Make room for `session` by cutting overlapping neighbours back to its edges.
+// A neighbour that surrounds it is split in two; one it covers completely is removed.
+export const trimNeighbours = (session: Session, overlaps: Session[]): OverlapFix => {
+    const span = spanOf(session);
+    const startIso = new Date(span.start).toISOString();
+    const endIso = new Date(span.end).toISOString();
+    const changed: Session[] = [];
+    const removed: string[] = [];
+
+    // Keep the neighbour's id on the half that survives
+    const tailOf = (neighbour: Session) => ({ ...splitSession(neighbour, endIso)[1], id: neighbour.id, created_at: neighbour.created_at });
+
+    overlaps.forEach(neighbour => {
+        const other = spanOf(neighbour);
+        const startsBefore = other.start < span.start;
+        const endsAfter = other.end > span.end;
+
+        if (startsBefore && endsAfter) {
+            const [head, rest] = splitSession(neighbour, startIso);
+            changed.push(head, splitSession(rest, endIso)[1]);
+        } else if (startsBefore) {
+            changed.push(splitSession(neighbour, startIso)[0]);
+        } else if (endsAfter) {
+            changed.push(tailOf(neighbour));
+        } else {
+            removed.push(neighbour.id);
+        }
+    });
+
+    return { changed, removed };
+};
+
+// Move `session` (keeping its length) to the first later slot where nothing else runs.
+// Returns null when that slot would end in the future, or the session is still running.
+export const shiftPastOverlaps = (session: Session, sessions: Session[], categories: CategoryItem[]): Session | null => {
+    if (!session.end_time) return null;
+    const original = spanOf(session);
+    const length = original.end - original.start;
+    let candidate = session;
+
+    // Each step jumps past at least one session, so this ends
+    for (let i = 0; i <= sessions.length; i++) {
+        const overlaps = findOverlaps(candidate, sessions, categories);
+        if (overlaps.length === 0) break;
+        const start = Math.max(...overlaps.map(o => spanOf(o).end));
+        const delta = start - original.start;
+        const shift = (iso: string) => new Date(new Date(iso).getTime() + delta).toISOString();
+        candidate = {
+            ...session,
+            start_time: new Date(start).toISOString(),
+            end_time: new Date(start + length).toISOString(),
+            ...(session.pauses && { pauses: session.pauses.map(p => ({ start: shift(p.start), end: p.end && shift(p.end) })) })
+        };
+    }
+
+    if (findOverlaps(candidate, sessions, categories).length > 0) return null;
+    return spanOf(candidate).end > Date.now() ? null : candidate;
+};
+
+// Stretches within [from, to] (epoch ms) not covered by any of `spans`, in order
+export const findGaps = (spans: { start: number; end: number }[], from: number, to: number) => {
+    const gaps: { start: number; end: number }[] = [];
+    let cursor = from;
+    [...spans]
+        .sort((a, b) => a.start - b.start)
+        .forEach(span => {
+            if (span.start > cursor && cursor < to) gaps.push({ start: cursor, end: Math.min(span.start, to) });
+            cursor = Math.max(cursor, span.end);
+        });
+    if (cursor < to) gaps.push({ start: cursor, end: to });
+    return gaps;
+};
+
+// Days can start after midnight (e.g. 4 AM) so late nights count towards the day before.
+// The calendar day a moment belongs to, as local midnight of that date.
+export const trackingDayOf = (date: Date, dayStartHour: number) =>
+    startOfDay(date.getHours() < dayStartHour ? subDays(date, 1) : date);
+
+// [start, end) of the tracking day labelled by `day`. Uses wall-clock hours, so days
+// around DST changes are 23 or 25 hours long.
+export const trackingDayBounds = (day: Date, dayStartHour: number) => ({
+    start: setHours(startOfDay(day), dayStartHour),
+    end: setHours(addDays(startOfDay(day), 1), dayStartHour)
+});